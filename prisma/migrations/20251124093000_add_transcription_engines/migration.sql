@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "transcriptionEngine" TEXT;
+
+-- AlterTable
+ALTER TABLE "RecordingSession" ADD COLUMN     "engine" TEXT;
+
+-- AlterTable
+ALTER TABLE "TranscriptChunk" ADD COLUMN     "engine" TEXT,
+ADD COLUMN     "model" TEXT;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "TranscriptSegment" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "chunkId" TEXT,
+    "seq" INTEGER NOT NULL,
+    "index" INTEGER NOT NULL,
+    "startMs" INTEGER NOT NULL,
+    "endMs" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "speaker" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptSegment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TranscriptWord" (
+    "id" TEXT NOT NULL,
+    "segmentId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "startMs" INTEGER NOT NULL,
+    "endMs" INTEGER NOT NULL,
+    "word" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION,
+
+    CONSTRAINT "TranscriptWord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptSegment_sessionId_startMs_idx" ON "TranscriptSegment"("sessionId", "startMs");
+
+-- CreateIndex
+CREATE INDEX "TranscriptSegment_chunkId_idx" ON "TranscriptSegment"("chunkId");
+
+-- CreateIndex
+CREATE INDEX "TranscriptWord_segmentId_index_idx" ON "TranscriptWord"("segmentId", "index");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TranscriptSegment" ADD CONSTRAINT "TranscriptSegment_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "TranscriptChunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TranscriptWord" ADD CONSTRAINT "TranscriptWord_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "TranscriptSegment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Speaker" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "name" TEXT,
+    "mergedInto" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Speaker_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Speaker_sessionId_label_key" ON "Speaker"("sessionId", "label");
+
+-- AddForeignKey
+ALTER TABLE "Speaker" ADD CONSTRAINT "Speaker_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "RecordingSession" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("summaryJSON", '{}'::jsonb)), 'B') ||
+    setweight(to_tsvector('english', coalesce("transcript", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "TranscriptChunk" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce("text", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "RecordingSession_searchVector_idx" ON "RecordingSession" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "TranscriptChunk_searchVector_idx" ON "TranscriptChunk" USING GIN ("searchVector");
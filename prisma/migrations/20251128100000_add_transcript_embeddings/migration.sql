@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "TranscriptEmbedding" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "startMs" INTEGER NOT NULL,
+    "endMs" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "embedder" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranscriptEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TranscriptEmbedding_sessionId_idx" ON "TranscriptEmbedding"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "TranscriptEmbedding_embedder_idx" ON "TranscriptEmbedding"("embedder");
+
+-- AddForeignKey
+ALTER TABLE "TranscriptEmbedding" ADD CONSTRAINT "TranscriptEmbedding_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
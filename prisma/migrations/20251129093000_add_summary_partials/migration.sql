@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "SummaryPartial" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "startSeq" INTEGER NOT NULL,
+    "endSeq" INTEGER NOT NULL,
+    "startMs" INTEGER NOT NULL,
+    "endMs" INTEGER NOT NULL,
+    "inputHash" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryPartial_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryPartial_sessionId_inputHash_key" ON "SummaryPartial"("sessionId", "inputHash");
+
+-- AddForeignKey
+ALTER TABLE "SummaryPartial" ADD CONSTRAINT "SummaryPartial_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "RecordingSession" ADD COLUMN "summaryTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SummaryTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "prompt" TEXT NOT NULL,
+    "fields" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SummaryTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SummaryTemplate_userId_idx" ON "SummaryTemplate"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SummaryTemplate" ADD CONSTRAINT "SummaryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "RecordingSession" ADD COLUMN "activeSummaryVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "SummaryVersion" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "summaryJSON" JSONB NOT NULL,
+    "templateId" TEXT,
+    "options" JSONB,
+    "engine" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummaryVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummaryVersion_sessionId_version_key" ON "SummaryVersion"("sessionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "SummaryVersion" ADD CONSTRAINT "SummaryVersion_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "RecordingSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing summaries become version 1
+INSERT INTO "SummaryVersion" ("id", "sessionId", "version", "summaryJSON", "templateId", "engine")
+SELECT gen_random_uuid()::text, "id", 1, "summaryJSON", "summaryTemplateId", "engine"
+FROM "RecordingSession"
+WHERE "summaryJSON" IS NOT NULL;
+
+UPDATE "RecordingSession" SET "activeSummaryVersion" = 1 WHERE "summaryJSON" IS NOT NULL;
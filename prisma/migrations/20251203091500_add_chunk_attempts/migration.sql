@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ChunkAttempt" (
+    "id" TEXT NOT NULL,
+    "chunkId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "engine" TEXT,
+    "model" TEXT,
+    "errorClass" TEXT,
+    "errorMessage" TEXT,
+    "conversionMs" INTEGER,
+    "transcriptionMs" INTEGER,
+    "totalMs" INTEGER NOT NULL,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChunkAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChunkAttempt_chunkId_attempt_key" ON "ChunkAttempt"("chunkId", "attempt");
+
+-- AddForeignKey
+ALTER TABLE "ChunkAttempt" ADD CONSTRAINT "ChunkAttempt_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "TranscriptChunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
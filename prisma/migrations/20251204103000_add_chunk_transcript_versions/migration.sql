@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ChunkTranscriptVersion" (
+    "id" TEXT NOT NULL,
+    "chunkId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "text" TEXT,
+    "speaker" TEXT,
+    "confidence" DOUBLE PRECISION,
+    "engine" TEXT,
+    "model" TEXT,
+    "segments" JSONB NOT NULL,
+    "overrides" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChunkTranscriptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChunkTranscriptVersion_chunkId_version_key" ON "ChunkTranscriptVersion"("chunkId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ChunkTranscriptVersion" ADD CONSTRAINT "ChunkTranscriptVersion_chunkId_fkey" FOREIGN KEY ("chunkId") REFERENCES "TranscriptChunk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
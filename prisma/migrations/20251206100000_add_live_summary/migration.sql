@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RecordingSession" ADD COLUMN     "liveSummary" JSONB;
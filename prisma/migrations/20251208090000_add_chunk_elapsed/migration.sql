@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TranscriptChunk" ADD COLUMN     "elapsedMs" INTEGER;
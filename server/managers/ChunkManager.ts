@@ -3,12 +3,18 @@ import * as fs from "fs";
 import * as path from "path";
 import { PrismaClient } from "@prisma/client";
 import { chunkLogger } from "../utils/logger";
+import { getAudioMetadata } from "../utils/ffmpeg";
 import { sessionManager } from "./SessionManager";
 const prisma = new PrismaClient();
+
+// last resort when neither ffprobe nor the client timestamps give a length
+const FALLBACK_CHUNK_DURATION_MS = 30000;
+
 export interface ChunkData {
   sessionId: string;
   sequence: number;
   timestamp: number;
+  elapsedMs?: number;
   audioData: Buffer;
   mimeType: string;
 }
@@ -41,7 +47,7 @@ export class ChunkManager {
         sequence: data.sequence,
         userId: "system",
         size: data.audioData.length,
-        durationMs: 30000,
+        timestamp: data.timestamp,
         mimeType: data.mimeType,
       });
       const session = await sessionManager.getSession(data.sessionId);
@@ -91,12 +97,15 @@ export class ChunkManager {
       const audioPath = path.join(sessionDir, filename);
 
       await fs.promises.writeFile(audioPath, data.audioData);
+      const { durationMs, startOffsetMs } = await this.resolveChunkTiming(data, audioPath);
       await prisma.transcriptChunk.create({
         data: {
           sessionId: data.sessionId,
           seq: data.sequence,
           audioPath,
-          durationMs: 30000,
+          durationMs,
+          startOffsetMs,
+          elapsedMs: data.elapsedMs,
           status: "uploaded",
         },
       });
@@ -109,6 +118,8 @@ export class ChunkManager {
         chunkId: `${data.sessionId}_${data.sequence}`,
         processingTimeMs: processingTime,
         audioPath,
+        durationMs,
+        startOffsetMs,
       });
 
       const metadata: ChunkMetadata = {
@@ -130,6 +141,54 @@ export class ChunkManager {
     }
   }
 
+  /**
+   * Length of a stored chunk and where it starts in the session timeline
+   * The length is the growth of the client's pause-excluded clock since the previous chunk,
+   * ffprobe rarely finds one in MediaRecorder webm. Without that clock (older clients or a
+   * missing previous chunk) it's probed, falling back to the gap between client timestamps.
+   * The client timestamp marks the end of the chunk in wall-clock time since the recording
+   * started, so the start lands after any pause that came before it
+   */
+  private async resolveChunkTiming(
+    data: ChunkData,
+    audioPath: string
+  ): Promise<{ durationMs: number; startOffsetMs: number }> {
+    const previous = await prisma.transcriptChunk.findFirst({
+      where: { sessionId: data.sessionId, seq: { lt: data.sequence } },
+      orderBy: { seq: "desc" },
+      select: { seq: true, durationMs: true, startOffsetMs: true, elapsedMs: true },
+    });
+    const isNext = previous?.seq === data.sequence - 1;
+
+    if (data.elapsedMs !== undefined) {
+      const previousElapsedMs =
+        data.sequence === 0 ? 0 : isNext ? (previous?.elapsedMs ?? null) : null;
+      const durationMs = previousElapsedMs !== null ? data.elapsedMs - previousElapsedMs : 0;
+      if (durationMs > 0) {
+        return { durationMs, startOffsetMs: Math.max(0, data.timestamp - durationMs) };
+      }
+    }
+
+    const previousEndMs =
+      previous?.startOffsetMs != null ? previous.startOffsetMs + previous.durationMs : null;
+
+    const { duration } = await getAudioMetadata(audioPath).catch(() => ({ duration: 0 }));
+
+    let durationMs = Math.round(duration * 1000);
+    if (durationMs <= 0) {
+      if (data.sequence === 0) {
+        durationMs = data.timestamp;
+      } else if (isNext && previousEndMs !== null) {
+        durationMs = data.timestamp - previousEndMs;
+      }
+      if (durationMs <= 0) durationMs = FALLBACK_CHUNK_DURATION_MS;
+    }
+
+    const startOffsetMs = Math.max(previousEndMs ?? 0, data.timestamp - durationMs);
+
+    return { durationMs, startOffsetMs };
+  }
+
   async getSessionChunks(sessionId: string) {
     return await prisma.transcriptChunk.findMany({
       where: { sessionId },
@@ -2,6 +2,7 @@ import { PrismaClient } from "@prisma/client";
 import * as fs from "fs";
 import * as path from "path";
 import { sessionLogger } from "../utils/logger";
+import type { EngineName } from "@/lib/transcriptionEngine";
 
 const prisma = new PrismaClient();
 const STORAGE_DIR = path.join(process.cwd(), "storage", "audio-chunks");
@@ -11,6 +12,8 @@ export interface SessionConfig {
   userId: string;
   title?: string;
   source: "mic" | "tab";
+  engine?: EngineName;
+  summaryTemplateId?: string;
 }
 
 export interface SessionInfo {
@@ -56,6 +59,8 @@ export class SessionManager {
         title: config.title || `Recording - ${new Date().toLocaleString()}`,
         status: "recording",
         startedAt: new Date(),
+        engine: config.engine,
+        summaryTemplateId: config.summaryTemplateId,
       },
     });
 
@@ -113,6 +118,34 @@ export class SessionManager {
       },
     });
   }
+  /**
+   * Reattach a reconnecting client, an interrupted session goes back to recording
+   * while a paused one stays paused until the client resumes it
+   */
+  async reattachSession(sessionId: string) {
+    const session = await prisma.recordingSession.findUnique({
+      where: { id: sessionId },
+      include: { chunks: { orderBy: { seq: "desc" }, take: 1, select: { seq: true } } },
+    });
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const status = session.status === "interrupted" ? "recording" : session.status;
+    if (status !== session.status) {
+      sessionLogger.resumed({
+        sessionId,
+        resumedAt: Date.now(),
+      });
+
+      await prisma.recordingSession.update({
+        where: { id: sessionId },
+        data: { status },
+      });
+    }
+
+    return { status, lastSequence: session.chunks[0]?.seq ?? null };
+  }
   async completeSession(sessionId: string, userId: string) {
     const session = await this.getSession(sessionId);
     if (!session) {
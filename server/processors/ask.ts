@@ -0,0 +1,222 @@
+import { prisma as db } from "@/lib/db";
+import { cosineSimilarity, getEmbedder } from "@/lib/embeddings";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+
+export interface RetrievedPassage {
+  sessionId: string;
+  title: string;
+  startedAt: Date;
+  seq: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+  score: number;
+}
+
+export interface AskCitation {
+  index: number;
+  sessionId: string;
+  title: string;
+  seq: number;
+  startMs: number;
+  endMs: number;
+  snippet: string;
+  url: string;
+}
+
+export interface AskResult {
+  answer: string;
+  citations: AskCitation[];
+}
+
+interface RetrieveOptions {
+  limit?: number;
+  sessionIds?: string[];
+  // leave out offline sessions when the answer is produced by a remote model
+  excludeLocalSessions?: boolean;
+}
+
+/**
+ * Sessions of a user that resolve to the local engine
+ * Sessions without a stored engine follow the owner's preference or the server default,
+ * so each distinct stored value is resolved once
+ */
+async function findLocalSessionIds(userId: string): Promise<string[]> {
+  const sessions = await db.recordingSession.findMany({
+    where: { userId },
+    select: { id: true, engine: true },
+  });
+
+  const isLocal = new Map<string | null, boolean>();
+  for (const { engine } of sessions) {
+    if (isLocal.has(engine)) continue;
+    isLocal.set(engine, (await resolveSessionEngine({ engine, userId })).name === "local");
+  }
+
+  return sessions.filter((session) => isLocal.get(session.engine)).map((session) => session.id);
+}
+
+/**
+ * Find the passages closest to a question across a user's sessions
+ * VECTOR_SEARCH=pgvector ranks inside Postgres (needs the vector extension),
+ * otherwise vectors are scored here from the float-array column
+ */
+export async function retrievePassages(
+  userId: string,
+  question: string,
+  options: RetrieveOptions = {}
+): Promise<RetrievedPassage[]> {
+  const limit = options.limit || 8;
+  const embedder = getEmbedder();
+  const [queryVector] = await embedder.embed([question]);
+
+  const localSessionIds = options.excludeLocalSessions ? await findLocalSessionIds(userId) : [];
+
+  const sessionFilter = {
+    userId,
+    id: {
+      ...(options.sessionIds && { in: options.sessionIds }),
+      ...(localSessionIds.length > 0 && { notIn: localSessionIds }),
+    },
+  };
+
+  if (process.env.VECTOR_SEARCH === "pgvector") {
+    const sessions = await db.recordingSession.findMany({
+      where: sessionFilter,
+      select: { id: true },
+    });
+
+    const vectorLiteral = `[${queryVector.join(",")}]`;
+
+    return db.$queryRaw<RetrievedPassage[]>`
+      SELECT
+        e."sessionId",
+        coalesce(s."title", 'Untitled Recording') AS "title",
+        s."startedAt",
+        e."seq",
+        e."startMs",
+        e."endMs",
+        e."text",
+        1 - (e."embedding"::vector <=> ${vectorLiteral}::vector) AS "score"
+      FROM "TranscriptEmbedding" e
+      JOIN "RecordingSession" s ON s."id" = e."sessionId"
+      WHERE e."embedder" = ${embedder.name}
+        AND e."sessionId" = ANY(${sessions.map((s) => s.id)})
+      ORDER BY e."embedding"::vector <=> ${vectorLiteral}::vector
+      LIMIT ${limit}
+    `;
+  }
+
+  const rows = await db.transcriptEmbedding.findMany({
+    where: { embedder: embedder.name, session: sessionFilter },
+    select: {
+      sessionId: true,
+      seq: true,
+      startMs: true,
+      endMs: true,
+      text: true,
+      embedding: true,
+      session: { select: { title: true, startedAt: true } },
+    },
+  });
+
+  return rows
+    .map((row) => ({
+      sessionId: row.sessionId,
+      title: row.session.title || "Untitled Recording",
+      startedAt: row.session.startedAt,
+      seq: row.seq,
+      startMs: row.startMs,
+      endMs: row.endMs,
+      text: row.text,
+      score: cosineSimilarity(queryVector, row.embedding),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Answer a question from the user's meetings, citing the passages it used
+ *
+ * @param userId - Owner of the sessions searched
+ * @param question - Natural-language question
+ * @returns Answer text with [n] markers and the matching citations
+ */
+export async function answerQuestion(
+  userId: string,
+  question: string,
+  options: Omit<RetrieveOptions, "excludeLocalSessions"> = {}
+): Promise<AskResult> {
+  const engine = await resolveSessionEngine({ userId });
+
+  const passages = await retrievePassages(userId, question, {
+    ...options,
+    excludeLocalSessions: engine.name !== "local",
+  });
+
+  if (passages.length === 0) {
+    return {
+      answer: "I couldn't find anything in your recordings related to that question.",
+      citations: [],
+    };
+  }
+
+  const answer = await engine.complete(buildAskPrompt(question, passages), {
+    temperature: 0.2,
+    maxOutputTokens: 1024,
+  });
+
+  // only cite the sources the model actually referenced
+  const referenced = new Set(
+    Array.from(answer.matchAll(/\[(\d+)\]/g)).map((match) => parseInt(match[1], 10))
+  );
+
+  const citations = passages
+    .map((passage, i) => ({
+      index: i + 1,
+      sessionId: passage.sessionId,
+      title: passage.title,
+      seq: passage.seq,
+      startMs: passage.startMs,
+      endMs: passage.endMs,
+      snippet: passage.text.slice(0, 300),
+      url: `/sessions/${passage.sessionId}?t=${passage.startMs}`,
+    }))
+    .filter((citation) => referenced.has(citation.index));
+
+  console.log(
+    `[Ask] user=${userId}: ${passages.length} passages retrieved, ${citations.length} cited`
+  );
+
+  return { answer, citations };
+}
+
+function buildAskPrompt(question: string, passages: RetrievedPassage[]): string {
+  const sources = passages
+    .map(
+      (passage, i) =>
+        `[${i + 1}] "${passage.title}" (${passage.startedAt.toISOString().slice(0, 10)}) at ${formatOffset(passage.startMs)}\n${passage.text}`
+    )
+    .join("\n\n");
+
+  return `You answer questions about the user's recorded meetings using ONLY the excerpts below.
+
+**EXCERPTS:**
+${sources}
+
+**QUESTION:**
+${question}
+
+**INSTRUCTIONS:**
+- Answer in a few sentences, plainly and directly
+- After every claim, cite the excerpt(s) it comes from like [1] or [2][3]
+- If the excerpts don't contain the answer, say so instead of guessing
+- Don't cite excerpts you didn't use`;
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,99 @@
+import { prisma as db } from "@/lib/db";
+import { getEmbedder } from "@/lib/embeddings";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import { mergeChunkTranscripts, TranscriptSegment } from "../utils/transcriptAggregation";
+
+const PASSAGE_WORDS = parseInt(process.env.EMBEDDING_PASSAGE_WORDS || "150", 10);
+const BATCH_SIZE = 32;
+
+export interface Passage {
+  index: number;
+  seq: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+/**
+ * Group consecutive segments into passages of roughly PASSAGE_WORDS words
+ * Passages never split a segment, so their offsets stay exact
+ */
+export function buildPassages(segments: TranscriptSegment[]): Passage[] {
+  const passages: Passage[] = [];
+  let current: TranscriptSegment[] = [];
+  let words = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    passages.push({
+      index: passages.length,
+      seq: current[0].seq,
+      startMs: current[0].startTime,
+      endMs: current[current.length - 1].endTime,
+      text: current.map((s) => (s.speaker ? `${s.speaker}: ${s.text}` : s.text)).join("\n"),
+    });
+    current = [];
+    words = 0;
+  };
+
+  for (const segment of segments) {
+    if (!segment.text.trim()) continue;
+    current.push(segment);
+    words += segment.text.split(/\s+/).length;
+    if (words >= PASSAGE_WORDS) flush();
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * Embed a finalized session's transcript, replacing any earlier vectors
+ * Offline (local engine) sessions are only embedded by a local embedder
+ *
+ * @param sessionId - Recording session ID
+ * @returns Number of passages stored
+ */
+export async function embedSession(sessionId: string): Promise<number> {
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { engine: true, userId: true },
+  });
+
+  if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+  const embedder = getEmbedder();
+
+  // sessions without a stored engine follow the owner's preference or the server default
+  if (!embedder.isLocal && (await resolveSessionEngine(session)).name === "local") {
+    console.log(`[Embeddings] skipping offline session ${sessionId} (${embedder.name} is remote)`);
+    return 0;
+  }
+
+  const aggregated = await mergeChunkTranscripts(sessionId);
+  const passages = buildPassages(aggregated.segments);
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < passages.length; i += BATCH_SIZE) {
+    const batch = passages.slice(i, i + BATCH_SIZE);
+    vectors.push(...(await embedder.embed(batch.map((p) => p.text))));
+  }
+
+  await db.$transaction([
+    db.transcriptEmbedding.deleteMany({ where: { sessionId } }),
+    db.transcriptEmbedding.createMany({
+      data: passages.map((passage, i) => ({
+        sessionId,
+        ...passage,
+        embedder: embedder.name,
+        embedding: vectors[i],
+      })),
+    }),
+  ]);
+
+  console.log(
+    `[Embeddings] session ${sessionId}: ${passages.length} passages embedded with ${embedder.name}`
+  );
+
+  return passages.length;
+}
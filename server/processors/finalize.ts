@@ -1,9 +1,22 @@
 import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
 import { mergeChunkTranscripts } from "../utils/transcriptAggregation";
 import { refineSpeakerDiarization } from "./diarization";
 import { generateSummary } from "./summary";
+import { embedSession } from "./embeddings";
+import { saveSummaryVersion } from "../utils/summaryVersions";
+import { stitchSessionAudio } from "../utils/sessionAudio";
+import { getWaveform } from "../utils/waveform";
+import { DeferJobError, transcriptionQueue } from "../queues/postgres-queue";
 import { getIO } from "../server";
 
+// how often finalization re-checks for chunks that are still transcribing
+const PENDING_CHUNK_RECHECK_MS = 2000;
+
+/**
+ * Merge, summarize and complete a stopped session, runs as a finalize job
+ * Throws DeferJobError while chunks are still transcribing so the job is retried later
+ */
 export async function finalizeSession(sessionId: string): Promise<void> {
   console.log(`[Finalize] Starting finalization: ${sessionId}`);
 
@@ -19,16 +32,16 @@ export async function finalizeSession(sessionId: string): Promise<void> {
     data: { status: "processing" },
   });
 
-  // skip failed chunks, only wait for processing
+  // skip failed chunks, only wait for processing ones and jobs still queued or retrying
   const pendingChunks = session.chunks.filter((c) => c.status === "processing");
   const failedChunks = session.chunks.filter((c) => c.status === "failed");
+  const activeJobs = await transcriptionQueue.countActive(sessionId);
 
-  if (pendingChunks.length > 0) {
+  if (pendingChunks.length > 0 || activeJobs > 0) {
     console.log(
-      `[Finalize] waiting for ${pendingChunks.length} chunks (${failedChunks.length} failed)`
+      `[Finalize] waiting for ${pendingChunks.length} chunks, ${activeJobs} jobs (${failedChunks.length} failed)`
     );
-    setTimeout(() => finalizeSession(sessionId), 2000);
-    return;
+    throw new DeferJobError(PENDING_CHUNK_RECHECK_MS, "waiting for chunks");
   }
 
   if (failedChunks.length > 0) {
@@ -36,9 +49,10 @@ export async function finalizeSession(sessionId: string): Promise<void> {
   }
 
   const aggregated = await mergeChunkTranscripts(sessionId);
+  const engine = await resolveSessionEngine(session);
 
-  // diarization for longer sessions
-  if (session.chunks.length >= 5) {
+  // diarization for longer sessions, refinement is gemini-only
+  if (session.chunks.length >= 5 && engine.name === "gemini") {
     await refineSpeakerDiarization(sessionId);
   }
 
@@ -47,14 +61,16 @@ export async function finalizeSession(sessionId: string): Promise<void> {
     data: { transcript: aggregated.fullText },
   });
 
-  const summary = await generateSummary(sessionId, aggregated.fullText);
+  const summary = await generateSummary(sessionId, aggregated.fullText, engine);
+
+  await saveSummaryVersion(sessionId, summary, { engine: engine.name });
 
   await db.recordingSession.update({
     where: { id: sessionId },
     data: {
-      summaryJSON: summary as any,
       status: "completed",
-      endedAt: new Date(),
+      // re-finalizing after a re-transcription must not stretch the session duration
+      endedAt: session.endedAt ?? new Date(),
     },
   });
 
@@ -67,4 +83,16 @@ export async function finalizeSession(sessionId: string): Promise<void> {
   });
 
   console.log(`[Finalize] sesion completed: ${sessionId}`);
+
+  // search index only, a failure here shouldn't fail the session
+  embedSession(sessionId).catch((error) =>
+    console.error(`[Finalize] embedding failed for ${sessionId}:`, error)
+  );
+
+  // playback file and its waveform, the audio and waveform routes build them on demand otherwise
+  stitchSessionAudio(sessionId)
+    .then((stitchedPath) => (stitchedPath ? getWaveform(sessionId) : null))
+    .catch((error) =>
+      console.error(`[Finalize] audio stitching or waveform failed for ${sessionId}:`, error)
+    );
 }
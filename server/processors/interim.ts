@@ -0,0 +1,77 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import { convertToWav } from "../utils/ffmpeg";
+
+// provisional slices in flight per session, new ones are skipped while it's full
+const MAX_INTERIM_IN_FLIGHT = 2;
+
+const inFlight = new Map<string, number>();
+
+export function isInterimTranscriptionEnabled(): boolean {
+  return process.env.ENABLE_REALTIME_TRANSCRIPTION === "true";
+}
+
+/**
+ * Quick provisional transcription of a short sub-slice of the chunk being recorded
+ * Nothing is stored, the authoritative chunk transcript replaces it on the client
+ *
+ * @returns The text, or null when the slice was skipped (busy, not recording, chunk already in)
+ */
+export async function transcribeInterimSlice(params: {
+  sessionId: string;
+  sequence: number;
+  index: number;
+  audio: Buffer;
+}): Promise<string | null> {
+  const { sessionId, sequence, index, audio } = params;
+
+  const running = inFlight.get(sessionId) ?? 0;
+  if (running >= MAX_INTERIM_IN_FLIGHT) {
+    console.log(`[Interim] session ${sessionId} busy, skipping slice ${sequence}.${index}`);
+    return null;
+  }
+
+  inFlight.set(sessionId, running + 1);
+
+  const base = path.join(os.tmpdir(), `interim_${sessionId}_${sequence}_${index}_${Date.now()}`);
+  const webmPath = `${base}.webm`;
+  const wavPath = `${base}.wav`;
+
+  try {
+    const [session, chunk] = await Promise.all([
+      db.recordingSession.findUnique({
+        where: { id: sessionId },
+        select: { engine: true, userId: true, status: true },
+      }),
+      db.transcriptChunk.findUnique({
+        where: { sessionId_seq: { sessionId, seq: sequence } },
+        select: { id: true },
+      }),
+    ]);
+
+    // the full chunk arrived first, its transcript is on the way
+    if (!session || session.status !== "recording" || chunk) return null;
+
+    await fs.writeFile(webmPath, audio);
+    await convertToWav(webmPath, wavPath, { sampleRate: 16000, channels: 1 });
+
+    const engine = await resolveSessionEngine(session);
+    const result = await engine.transcribeChunk(sessionId, sequence, wavPath, {
+      enableDiarization: false,
+      languageHint: "en-US",
+      temperature: 0.1,
+    });
+
+    const text = result.text.trim();
+    return text.length > 0 ? text : null;
+  } finally {
+    const remaining = (inFlight.get(sessionId) ?? 1) - 1;
+    if (remaining > 0) inFlight.set(sessionId, remaining);
+    else inFlight.delete(sessionId);
+
+    await Promise.all([fs.unlink(webmPath), fs.unlink(wavPath)].map((p) => p.catch(() => {})));
+  }
+}
@@ -0,0 +1,130 @@
+import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import { LiveSummarySchema, LiveSummaryUpdateSchema } from "../schemas/transcript.schema";
+import type { LiveSummary } from "../schemas/transcript.schema";
+
+// chunk statuses that may still turn into a transcript
+const IN_FLIGHT_STATUSES = ["uploaded", "processing"];
+
+export function getLiveSummaryInterval(): number {
+  return parseInt(process.env.LIVE_SUMMARY_EVERY_CHUNKS || "4", 10);
+}
+
+export async function getLiveSummary(sessionId: string): Promise<LiveSummary | null> {
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { liveSummary: true },
+  });
+
+  const parsed = LiveSummarySchema.safeParse(session?.liveSummary);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Transcribed chunks not folded into the live summary yet
+ * Stops at the first chunk still in flight so none is skipped when it lands later,
+ * failed chunks are passed over so one of them can't freeze the summary
+ */
+export async function getPendingLiveChunks(
+  sessionId: string,
+  afterSeq: number
+): Promise<Array<{ seq: number; text: string; speaker: string | null }>> {
+  const chunks = await db.transcriptChunk.findMany({
+    where: { sessionId, seq: { gt: afterSeq } },
+    orderBy: { seq: "asc" },
+    select: { seq: true, status: true, text: true, speaker: true },
+  });
+
+  const pending: Array<{ seq: number; text: string; speaker: string | null }> = [];
+  let expected = afterSeq + 1;
+  for (const chunk of chunks) {
+    if (chunk.seq !== expected || IN_FLIGHT_STATUSES.includes(chunk.status)) break;
+    expected++;
+    if (chunk.status !== "transcribed") continue;
+    pending.push({ seq: chunk.seq, text: chunk.text ?? "", speaker: chunk.speaker });
+  }
+
+  return pending;
+}
+
+/**
+ * Fold newly transcribed chunks into the session's rolling summary and action items
+ * Only the new text and the previous rolling state go to the model, never the whole meeting
+ *
+ * @returns The updated live summary, or null when there was nothing new
+ */
+export async function updateLiveSummary(sessionId: string): Promise<LiveSummary | null> {
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { engine: true, userId: true, liveSummary: true },
+  });
+
+  if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+  const previousParse = LiveSummarySchema.safeParse(session.liveSummary);
+  const previous = previousParse.success ? previousParse.data : null;
+
+  const chunks = await getPendingLiveChunks(sessionId, previous?.throughSeq ?? -1);
+  if (chunks.length === 0) return null;
+
+  // non-gemini sessions (e.g. offline mode) must not send their transcript to gemini
+  const engine = await resolveSessionEngine(session);
+
+  const newText = chunks
+    .map((chunk) => (chunk.speaker ? `${chunk.speaker}: ${chunk.text}` : chunk.text))
+    .join("\n");
+
+  const response = await engine.complete(buildLiveSummaryPrompt(previous, newText), {
+    json: true,
+    temperature: 0.2,
+    maxOutputTokens: 2048,
+  });
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error("No JSON found in live summary response");
+
+  const update = LiveSummaryUpdateSchema.parse(JSON.parse(jsonMatch[0]));
+
+  const liveSummary: LiveSummary = {
+    ...update,
+    throughSeq: chunks[chunks.length - 1].seq,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await db.recordingSession.update({
+    where: { id: sessionId },
+    data: { liveSummary: liveSummary as any },
+  });
+
+  console.log(
+    `[LiveSummary] session ${sessionId}: folded chunks ${chunks[0].seq}-${liveSummary.throughSeq}, ${update.actionItems.length} action items`
+  );
+
+  return liveSummary;
+}
+
+function buildLiveSummaryPrompt(previous: LiveSummary | null, newText: string): string {
+  const state = previous
+    ? `**SUMMARY SO FAR:**
+${previous.summary}
+
+**ACTION ITEMS SO FAR:**
+${JSON.stringify(previous.actionItems)}`
+    : "**SUMMARY SO FAR:**\n(nothing yet, the meeting just started)";
+
+  return `You keep a running summary of a meeting that is still in progress.
+
+${state}
+
+**NEW TRANSCRIPT SINCE THE LAST UPDATE:**
+${newText}
+
+**INSTRUCTIONS:**
+- Update the summary so someone joining now knows what has happened so far, in at most 150 words
+- Keep earlier points unless the new transcript changes them
+- Return the full action item list: keep the earlier items, add new ones, update any that changed
+- Use the speaker label as "speaker" for an action item, or "Unknown" when it isn't clear
+
+Respond with JSON only:
+{"summary": "...", "actionItems": [{"speaker": "...", "item": "...", "priority": "low" | "medium" | "high"}]}`;
+}
@@ -1,26 +1,77 @@
+import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
 import { prisma as db } from "@/lib/db";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-export interface MeetingSummary {
-  executiveSummary: string;
-  keyPoints: string[];
-  actionItems: Array<{
-    speaker: string;
-    item: string;
-    timestamp?: string;
-  }>;
-  decisions: Array<{
-    decision: string;
-    timestamp?: string;
-  }>;
-  keyTimestamps: Array<{
-    time: string;
-    event: string;
-  }>;
-  duration: string;
-  participantCount: number;
+import { getTranscriptionEngine } from "@/lib/engineRegistry";
+import type { SummaryOptions, TranscriptionEngine } from "@/lib/transcriptionEngine";
+import { z } from "zod";
+import {
+  getPlaybackTimeline,
+  mergeChunkTranscripts,
+  TranscriptSegment,
+} from "../utils/transcriptAggregation";
+import { audioToSessionMs, TimelineChunk } from "@/lib/playbackTimeline";
+import { Bookmark, getBookmarks } from "../utils/bookmarks";
+import {
+  buildSummarySchema,
+  repairTemplateFields,
+  resolveSummaryTemplate,
+  SummaryTemplate,
+} from "../utils/summaryTemplates";
+import {
+  ActionItem,
+  ActionItemSchema,
+  Decision,
+  DecisionSchema,
+  KeyPointSource,
+  KeyTimestampSchema,
+  SummaryJSON,
+  SummaryJSONSchema,
+  SummarySource,
+} from "../schemas/transcript.schema";
+
+export type MeetingSummary = SummaryJSON;
+
+interface SourceRange {
+  startSeq: number;
+  endSeq: number;
+  startMs: number;
+  endMs: number;
 }
 
+interface SummaryWindow extends SourceRange {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+interface PartialSummary extends SourceRange {
+  summary: string;
+  keyPoints: KeyPointSource[];
+  // carried through merges unchanged, the final step dedupes them
+  actionItems: ActionItem[];
+  decisions: Decision[];
+}
+
+// transcript characters per map step, and partials merged per reduce step
+const WINDOW_CHARS = parseInt(process.env.SUMMARY_WINDOW_CHARS || "12000", 10);
+const MERGE_FAN_IN = 6;
+
+// bump when prompts change so cached partials are regenerated
+const PROMPT_VERSION = "2";
+
+// key points as the model writes them, window steps give a time, later steps cite [n]
+const WindowKeyPointSchema = z.object({
+  point: z.string().trim().min(1),
+  time: z.string().optional().catch(undefined),
+});
+
+const CitedKeyPointSchema = z.object({
+  point: z.string().trim().min(1),
+  sources: z.array(z.unknown()).catch([]),
+});
+
+// model output is untrusted, objects are narrowed field by field with the schemas above
+const JsonObjectSchema = z.record(z.unknown());
+
 const RETRY_CONFIG = {
   maxAttempts: 3,
   initialDelayMs: 1000,
@@ -28,9 +79,16 @@ const RETRY_CONFIG = {
   backoffMultiplier: 2,
 };
 
+/**
+ * Summarize a session with its summary template
+ * options.templateId overrides the template chosen when the session was created,
+ * the SummaryOptions shape the final summary (length, focus, format, language)
+ */
 export async function generateSummary(
   sessionId: string,
-  fullTranscript: string
+  fullTranscript: string,
+  engine?: TranscriptionEngine,
+  options: SummaryOptions & { templateId?: string | null } = {}
 ): Promise<MeetingSummary> {
   let lastError: Error | null = null;
   let attempt = 0;
@@ -42,7 +100,7 @@ export async function generateSummary(
         `[Summary] attempt ${attempt}/${RETRY_CONFIG.maxAttempts} for session: ${sessionId}`
       );
 
-      const summary = await generateSummaryInternal(sessionId, fullTranscript);
+      const summary = await generateSummaryInternal(sessionId, fullTranscript, engine, options);
       await logSummaryAttempt(sessionId, attempt, true);
 
       return summary;
@@ -73,60 +131,597 @@ export async function generateSummary(
 
 async function generateSummaryInternal(
   sessionId: string,
-  fullTranscript: string
+  fullTranscript: string,
+  engine?: TranscriptionEngine,
+  options: SummaryOptions & { templateId?: string | null } = {}
 ): Promise<MeetingSummary> {
   console.log(`[Summary] generatng for session: ${sessionId}`);
 
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, summaryTemplateId: true },
+  });
+
+  if (!session) throw new Error(`Session not found: ${sessionId}`);
+
+  const template = await resolveSummaryTemplate(
+    options.templateId !== undefined ? options.templateId : session.summaryTemplateId,
+    session.userId
+  );
+
   const chunks = await db.transcriptChunk.findMany({
     where: { sessionId },
     orderBy: { seq: "asc" },
   });
 
-  const speakers = new Set(chunks.map((c) => c.speaker).filter((s): s is string => s !== null));
+  const aggregated = await mergeChunkTranscripts(sessionId);
+
+  // uploads have no chunks, their segments carry the speakers and the length
+  const speakers = new Set(
+    [...chunks.map((c) => c.speaker), ...aggregated.segments.map((s) => s.speaker)].filter(
+      (s): s is string => !!s
+    )
+  );
 
+  // chunk offsets and durations give the length, arrival times only when nothing was merged
   const startTime = chunks[0]?.createdAt || new Date();
   const endTime = chunks[chunks.length - 1]?.createdAt || new Date();
-  const durationMs = endTime.getTime() - startTime.getTime();
+  const durationMs = aggregated.totalDuration || endTime.getTime() - startTime.getTime();
   const durationMin = Math.floor(durationMs / 60000);
 
-  const prompt = buildSummaryPrompt(fullTranscript, speakers.size, durationMin);
+  // non-gemini sessions (e.g. offline mode) must not send their transcript to gemini
+  const summarizer = engine ?? getTranscriptionEngine("gemini");
+
+  const windows = buildSummaryWindows(aggregated.segments);
+
+  // legacy sessions may have no segment rows, window the stored text instead
+  if (windows.length === 0) {
+    for (let i = 0; i < fullTranscript.length; i += WINDOW_CHARS) {
+      windows.push({
+        startSeq: 0,
+        endSeq: 0,
+        startMs: 0,
+        endMs: durationMs,
+        text: fullTranscript.slice(i, i + WINDOW_CHARS),
+        segments: [],
+      });
+    }
+  }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) throw new Error("GEMINI_API_KEY required");
+  const usedHashes: string[] = [];
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+  // one window at a time, a long meeting shouldn't burst the model's rate limit
+  let partials: PartialSummary[] = [];
+  for (const window of windows) {
+    partials.push(await summarizeWindow(sessionId, summarizer, window, usedHashes));
+  }
 
-  const result = await model.generateContent(prompt);
-  const summaryText = result.response.text() || "";
+  // reduce until the partials fit in a single final prompt
+  let level = 1;
+  while (partials.length > 1 && partialsLength(partials) > WINDOW_CHARS) {
+    const groups: PartialSummary[][] = [];
+    for (let i = 0; i < partials.length; i += MERGE_FAN_IN) {
+      groups.push(partials.slice(i, i + MERGE_FAN_IN));
+    }
 
-  // New format: Plain text narrative, not JSON
-  const summary = {
-    executiveSummary: summaryText.trim(),
-    keyPoints: [], // No longer used
-    actionItems: [], // No longer used
-    decisions: [], // No longer used
-    keyTimestamps: [], // No longer used
-  };
+    const merged: PartialSummary[] = [];
+    for (const group of groups) {
+      merged.push(await mergePartials(sessionId, summarizer, group, level, usedHashes));
+    }
+    partials = merged;
+    level++;
+  }
 
-  return {
-    ...summary,
+  console.log(
+    `[Summary] ${windows.length} windows reduced to ${partials.length} partials over ${level} levels`
+  );
+
+  // moments bookmarked while recording are weighted more in the final summary
+  const [bookmarks, timeline] = await Promise.all([
+    getBookmarks(sessionId),
+    getPlaybackTimeline(sessionId),
+  ]);
+  const highlights = describeBookmarks(bookmarks, aggregated.segments, timeline);
+
+  const summary = await summarizeFinal(summarizer, partials, template, options, {
     duration: `${durationMin}m ${Math.floor((durationMs % 60000) / 1000)}s`,
+    durationMin,
     participantCount: speakers.size,
+    highlights,
+  });
+
+  // drop cached steps from earlier transcripts that no longer feed the summary
+  await db.summaryPartial.deleteMany({
+    where: { sessionId, inputHash: { notIn: usedHashes } },
+  });
+
+  return summary;
+}
+
+/**
+ * One line per bookmark with its note and what was being said at that moment
+ */
+function describeBookmarks(
+  bookmarks: Bookmark[],
+  segments: TranscriptSegment[],
+  timeline: TimelineChunk[]
+): string[] {
+  return bookmarks.map((bookmark) => {
+    // bookmarks are audio positions, segments are on the session timeline with its pause gaps
+    const offsetMs = audioToSessionMs(timeline, bookmark.offsetMs);
+
+    // the segment playing at the bookmark, or the last one that started before it
+    const segment =
+      segments.find((s) => s.startTime <= offsetMs && offsetMs < s.endTime) ??
+      segments.filter((s) => s.startTime <= offsetMs).pop();
+
+    const said = segment
+      ? ` - ${segment.speaker ? `${segment.speaker}: ` : ""}"${segment.text.trim().slice(0, 300)}"`
+      : "";
+
+    return `- [${formatOffset(offsetMs)}]${bookmark.note ? ` (${bookmark.note})` : ""}${said}`;
+  });
+}
+
+/**
+ * Group transcript segments into windows of about WINDOW_CHARS, never splitting a chunk
+ * Lines carry their offset so the model can say where a key point was made
+ */
+function buildSummaryWindows(segments: TranscriptSegment[]): SummaryWindow[] {
+  const windows: SummaryWindow[] = [];
+  let current: TranscriptSegment[] = [];
+  let length = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    windows.push({
+      startSeq: current[0].seq,
+      endSeq: current[current.length - 1].seq,
+      startMs: current[0].startTime,
+      endMs: current[current.length - 1].endTime,
+      text: current
+        .map(
+          (s) =>
+            `[${formatOffset(s.startTime)}] ${s.speaker ? `${s.speaker}: ` : ""}${s.text.trim()}`
+        )
+        .join("\n"),
+      segments: current,
+    });
+    current = [];
+    length = 0;
+  };
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (!segment.text.trim()) continue;
+
+    current.push(segment);
+    length += segment.text.length;
+
+    const nextSeq = segments[i + 1]?.seq;
+    if (length >= WINDOW_CHARS && nextSeq !== segment.seq) flush();
+  }
+  flush();
+
+  return windows;
+}
+
+async function summarizeWindow(
+  sessionId: string,
+  engine: TranscriptionEngine,
+  window: SummaryWindow,
+  usedHashes: string[]
+): Promise<PartialSummary> {
+  const range = {
+    startSeq: window.startSeq,
+    endSeq: window.endSeq,
+    startMs: window.startMs,
+    endMs: window.endMs,
   };
+
+  return withPartialCache(sessionId, engine, 0, range, window.text, usedHashes, async () => {
+    const response = await engine.complete(buildWindowPrompt(window.text), {
+      json: true,
+      temperature: 0.2,
+      maxOutputTokens: 2048,
+    });
+    const parsed = parseJsonObject(response);
+
+    const keyPoints = keepValid(parsed.keyPoints, WindowKeyPointSchema).map((kp) => ({
+      point: kp.point,
+      sources: [locateSource(window, kp.time)],
+    }));
+
+    return {
+      ...range,
+      summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+      keyPoints,
+      actionItems: keepValid(
+        keepValid(parsed.actionItems, JsonObjectSchema).map((item) => ({
+          speaker: item.speaker || "Team",
+          item: item.item,
+          timestamp: normalizeOffset(item.time),
+        })),
+        ActionItemSchema
+      ),
+      decisions: keepValid(
+        keepValid(parsed.decisions, JsonObjectSchema).map((decision) => ({
+          decision: decision.decision,
+          timestamp: normalizeOffset(decision.time),
+        })),
+        DecisionSchema
+      ),
+    };
+  });
 }
 
-function buildSummaryPrompt(transcript: string, speakerCount: number, durationMin: number): string {
-  return `You are an intelligent meeting analyst helping someone who missed a ${durationMin}-minute conversation understand what happened.
+async function mergePartials(
+  sessionId: string,
+  engine: TranscriptionEngine,
+  group: PartialSummary[],
+  level: number,
+  usedHashes: string[]
+): Promise<PartialSummary> {
+  const range = {
+    startSeq: group[0].startSeq,
+    endSeq: group[group.length - 1].endSeq,
+    startMs: group[0].startMs,
+    endMs: group[group.length - 1].endMs,
+  };
+
+  if (group.length === 1) return group[0];
+
+  const { text, points } = formatPartials(group);
+
+  return withPartialCache(sessionId, engine, level, range, text, usedHashes, async () => {
+    const response = await engine.complete(buildMergePrompt(text), {
+      json: true,
+      temperature: 0.2,
+      maxOutputTokens: 2048,
+    });
+    const parsed = parseJsonObject(response);
+
+    return {
+      ...range,
+      summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+      keyPoints: resolveKeyPoints(parsed.keyPoints, points),
+      actionItems: group.flatMap((partial) => partial.actionItems),
+      decisions: group.flatMap((partial) => partial.decisions),
+    };
+  });
+}
+
+/**
+ * Produce the final summary in JSON mode and validate it against SummaryJSONSchema
+ * An invalid response is re-asked once with the validation errors, then repaired
+ * by dropping the entries that still don't fit
+ */
+async function summarizeFinal(
+  engine: TranscriptionEngine,
+  partials: PartialSummary[],
+  template: SummaryTemplate,
+  options: SummaryOptions,
+  meta: { duration: string; durationMin: number; participantCount: number; highlights: string[] }
+): Promise<SummaryJSON> {
+  const { text, points } = formatPartials(partials);
+  const prompt = buildSummaryPrompt(
+    text,
+    meta.participantCount,
+    meta.durationMin,
+    template,
+    options,
+    meta.highlights
+  );
+  const completionOptions = { json: true, temperature: 0.3, maxOutputTokens: 4096 };
+  const schema = buildSummarySchema(template);
+
+  const toCandidate = (parsed: Record<string, unknown>) => {
+    const keyPointSources = resolveKeyPoints(parsed.keyPoints, points);
+    return {
+      ...parsed,
+      keyPoints: keyPointSources.map((keyPoint) => keyPoint.point),
+      keyPointSources,
+      duration: meta.duration,
+      participantCount: meta.participantCount,
+      template: { id: template.id, name: template.name, version: template.version },
+      fields: template.fields.length > 0 ? parsed.fields : undefined,
+    };
+  };
+
+  const validate = (candidate: unknown) => {
+    const result = schema.safeParse(candidate);
+    return result.success
+      ? { success: true as const, data: result.data as SummaryJSON, errors: undefined }
+      : {
+          success: false as const,
+          data: undefined,
+          errors: result.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        };
+  };
+
+  const response = await engine.complete(prompt, completionOptions);
+  let candidate = toCandidate(parseJsonObject(response));
+  let validation = validate(candidate);
+
+  if (!validation.success) {
+    console.log(`[Summary] invalid summary json, re-asking: ${validation.errors?.join("; ")}`);
+
+    const retried = await engine.complete(
+      buildRepairPrompt(prompt, response, validation.errors || []),
+      completionOptions
+    );
+    candidate = toCandidate(parseJsonObject(retried));
+    validation = validate(candidate);
+  }
+
+  if (!validation.success) {
+    console.log(`[Summary] still invalid, repairing: ${validation.errors?.join("; ")}`);
+    validation = validate(repairSummary(candidate, template));
+  }
+
+  if (!validation.success || !validation.data?.executiveSummary.trim()) {
+    throw new Error(`Summary failed validation: ${validation.errors?.join("; ")}`);
+  }
+
+  return validation.data;
+}
+
+// keeps what fits the schema, drops the rest and fills required fields with empties
+function repairSummary(
+  candidate: Record<string, unknown>,
+  template: SummaryTemplate
+): Record<string, unknown> {
+  const strings = (value: unknown) =>
+    toArray(value)
+      .filter((entry): entry is string => typeof entry === "string" && entry.trim() !== "")
+      .map((entry) => entry.trim());
+
+  return {
+    ...candidate,
+    executiveSummary:
+      typeof candidate.executiveSummary === "string" ? candidate.executiveSummary : "",
+    actionItems: keepValid(
+      keepValid(candidate.actionItems, JsonObjectSchema).map((item) => ({
+        ...item,
+        speaker: item.speaker || "Team",
+        dueDate: undefined,
+      })),
+      ActionItemSchema
+    ),
+    decisions: keepValid(candidate.decisions, DecisionSchema),
+    keyTimestamps: keepValid(candidate.keyTimestamps, KeyTimestampSchema),
+    topics: strings(candidate.topics),
+    nextSteps: strings(candidate.nextSteps),
+    sentiment: SummaryJSONSchema.shape.sentiment.catch(undefined).parse(candidate.sentiment),
+    fields:
+      template.fields.length > 0 ? repairTemplateFields(template, candidate.fields) : undefined,
+  };
+}
+
+function keepValid<T extends z.ZodTypeAny>(value: unknown, schema: T): z.infer<T>[] {
+  return toArray(value)
+    .map((entry) => schema.safeParse(entry))
+    .filter((result) => result.success)
+    .map((result) => result.data);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Reuse a cached step when its input is unchanged, otherwise run and store it
+ * The hash covers the prompt version, engine and input text, so edits to any of them miss
+ */
+async function withPartialCache(
+  sessionId: string,
+  engine: TranscriptionEngine,
+  level: number,
+  range: SourceRange,
+  input: string,
+  usedHashes: string[],
+  run: () => Promise<PartialSummary>
+): Promise<PartialSummary> {
+  const inputHash = createHash("sha256")
+    .update(`${PROMPT_VERSION}:${engine.name}:${level}:${input}`)
+    .digest("hex");
+  usedHashes.push(inputHash);
+
+  const cached = await db.summaryPartial.findUnique({
+    where: { sessionId_inputHash: { sessionId, inputHash } },
+  });
+
+  if (cached) {
+    return cached.content as unknown as PartialSummary;
+  }
+
+  const partial = await run();
+
+  await db.summaryPartial.upsert({
+    where: { sessionId_inputHash: { sessionId, inputHash } },
+    create: {
+      sessionId,
+      level,
+      ...range,
+      inputHash,
+      content: partial as unknown as Prisma.InputJsonValue,
+    },
+    update: { content: partial as unknown as Prisma.InputJsonValue },
+  });
+
+  return partial;
+}
+
+// numbers every key point so merge and final steps can cite them as [n]
+function formatPartials(partials: PartialSummary[]): {
+  text: string;
+  points: KeyPointSource[];
+} {
+  const points: KeyPointSource[] = [];
+
+  const text = partials
+    .map((partial) => {
+      const lines = partial.keyPoints.map((keyPoint) => {
+        points.push(keyPoint);
+        return `  [${points.length}] ${keyPoint.point}`;
+      });
+
+      const actions = partial.actionItems.map(
+        (item) => `  Action (${item.timestamp ?? "?"}): ${item.speaker} - ${item.item}`
+      );
+      const decisions = partial.decisions.map(
+        (decision) => `  Decision (${decision.timestamp ?? "?"}): ${decision.decision}`
+      );
+
+      return [
+        `### ${formatOffset(partial.startMs)} - ${formatOffset(partial.endMs)}`,
+        partial.summary,
+        ...lines,
+        ...actions,
+        ...decisions,
+      ].join("\n");
+    })
+    .join("\n\n");
+
+  return { text, points };
+}
+
+// maps the model's "sources: [n]" back to the transcript ranges of those points
+function resolveKeyPoints(raw: unknown, points: KeyPointSource[]): KeyPointSource[] {
+  return keepValid(raw, CitedKeyPointSchema).map((kp) => {
+    const sources = kp.sources
+      .filter((n): n is number => typeof n === "number" && n >= 1 && n <= points.length)
+      .map(Math.floor)
+      .flatMap((n) => points[n - 1].sources);
+
+    return { point: kp.point, sources: dedupeSources(sources) };
+  });
+}
+
+// narrows a window-level source to the segment the model pointed at
+function locateSource(window: SummaryWindow, time?: string): SummarySource {
+  const atMs = time ? parseOffset(time) : null;
+  const segment =
+    atMs === null
+      ? undefined
+      : window.segments.filter((s) => s.startTime <= atMs).pop() || window.segments[0];
+
+  if (!segment) {
+    return {
+      seq: window.startSeq,
+      startMs: window.startMs,
+      endMs: window.endMs,
+      timestamp: formatOffset(window.startMs),
+    };
+  }
+
+  return {
+    seq: segment.seq,
+    startMs: segment.startTime,
+    endMs: segment.endTime,
+    timestamp: formatOffset(segment.startTime),
+  };
+}
+
+function dedupeSources(sources: SummarySource[]): SummarySource[] {
+  const seen = new Set<string>();
+  return sources
+    .filter((source) => {
+      const key = `${source.seq}:${source.startMs}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.startMs - b.startMs);
+}
+
+function partialsLength(partials: PartialSummary[]): number {
+  return partials.reduce(
+    (sum, partial) =>
+      sum +
+      partial.summary.length +
+      partial.keyPoints.reduce((n, kp) => n + kp.point.length, 0) +
+      partial.actionItems.reduce((n, item) => n + item.item.length, 0) +
+      partial.decisions.reduce((n, decision) => n + decision.decision.length, 0),
+    0
+  );
+}
+
+function buildWindowPrompt(transcript: string): string {
+  return `You are summarizing one part of a longer meeting transcript. Each line starts with its [mm:ss] offset.
+
+**TRANSCRIPT PART:**
+${transcript}
+
+**INSTRUCTIONS:**
+Respond with JSON only, in this shape:
+{"summary": "2-4 sentences on what happened in this part", "keyPoints": [{"point": "one key point", "time": "mm:ss where it was said"}], "actionItems": [{"speaker": "who owns it", "item": "what they will do", "time": "mm:ss"}], "decisions": [{"decision": "what was decided", "time": "mm:ss"}]}
+
+- Include at most 6 key points, only ones that matter beyond this part
+- Only list action items someone actually committed to, and decisions actually agreed on
+- Use empty arrays when there are none
+- Use past tense and keep names, numbers and dates
+- Skip unclear parts or background noise`;
+}
+
+function buildMergePrompt(partials: string): string {
+  return `You are combining summaries of consecutive parts of one meeting. Key points are numbered [n].
+
+**PART SUMMARIES:**
+${partials}
+
+**INSTRUCTIONS:**
+Respond with JSON only, in this shape:
+{"summary": "3-5 sentences covering all of these parts in order", "keyPoints": [{"point": "merged key point", "sources": [1, 4]}]}
+
+- Merge key points that say the same thing and drop minor ones, keep at most 8
+- "sources" lists the numbers of the key points each merged point came from`;
+}
+
+function buildSummaryPrompt(
+  partials: string,
+  speakerCount: number,
+  durationMin: number,
+  template: SummaryTemplate,
+  options: SummaryOptions = {},
+  highlights: string[] = []
+): string {
+  const preferences = [
+    options.maxLength && `- Keep executiveSummary under ${options.maxLength} words`,
+    options.focusAreas?.length && `- Focus on: ${options.focusAreas.join(", ")}`,
+    options.format === "bullets" &&
+      '- Write executiveSummary as bullet lines starting with "- " instead of paragraphs',
+    options.language &&
+      `- Write every text value in ${options.language}, keep the JSON keys in English`,
+  ].filter(Boolean);
+
+  const fields = template.fields.map(
+    (field) =>
+      `    "${field.key}": ${field.type === "list" ? '["..."]' : '"..."'}${field.description ? ` // ${field.label}: ${field.description}` : ` // ${field.label}`}`
+  );
+
+  return `You are an intelligent meeting analyst helping someone who missed a ${durationMin}-minute conversation with ${speakerCount || "several"} participants understand what happened.
 
 **YOUR TASK:**
-Read the transcript and explain the meeting in a natural, conversational way - as if you're briefing a colleague who wasn't there.
+Below are summaries of the meeting, part by part and in order, with their key points numbered [n]. Explain the whole meeting in a natural, conversational way - as if you're briefing a colleague who wasn't there.
 
-**TRANSCRIPT:**
-${transcript.slice(0, 8000)}${transcript.length > 8000 ? "..." : ""}
+**PART SUMMARIES:**
+${partials}
 
 **INSTRUCTIONS:**
-Write a cohesive explanation (3-5 paragraphs) covering:
+Respond with JSON only, in this shape:
+{
+  "executiveSummary": "3-5 flowing paragraphs",
+  "keyPoints": [{"point": "key point", "sources": [2, 7]}],
+  "actionItems": [{"speaker": "owner", "item": "task", "timestamp": "mm:ss", "priority": "low" | "medium" | "high"}],
+  "decisions": [{"decision": "what was decided", "timestamp": "mm:ss", "participants": ["names"], "rationale": "why"}],
+  "keyTimestamps": [{"time": "mm:ss", "event": "what happened", "importance": "low" | "medium" | "high"}],
+  "topics": ["short topic"],
+  "sentiment": "positive" | "neutral" | "negative",
+  "nextSteps": ["what happens next"]${fields.length > 0 ? `,\n  "fields": {\n${fields.join(",\n")}\n  }` : ""}
+}
+${highlights.length > 0 ? `\n**BOOKMARKED MOMENTS:**\nThe person recording marked these moments as important. Make sure each one is reflected in the executiveSummary or keyPoints:\n${highlights.join("\n")}\n` : ""}${template.prompt ? `\n**MEETING TYPE: ${template.name}**\n${template.prompt}\n` : ""}${preferences.length > 0 ? `\n**PREFERENCES (these override the style below):**\n${preferences.join("\n")}\n` : ""}
+The executiveSummary should cover:
 - What was the meeting about? (main topic/purpose)
 - What were the key discussion points?
 - What decisions were made or actions planned?
@@ -135,42 +730,57 @@ Write a cohesive explanation (3-5 paragraphs) covering:
 
 **STYLE:**
 - Write naturally, like telling a story
-- Be MUCH more concise than the original (summarize, don't repeat)
 - Use past tense ("The team discussed...", "They decided...")
-- Focus on meaning and context, not word-for-word transcription
-- Skip unclear parts or background noise
-- No bullet points, no structured format - just flowing paragraphs
+- No bullet points inside executiveSummary - just flowing paragraphs
+- List 3-8 keyPoints covering the whole meeting, not just the start
+- "sources" lists the numbers of the part key points each point is based on
+- Merge duplicate action items and decisions from different parts, keep their earliest timestamp
+- Leave out optional fields (priority, participants, rationale) you can't tell from the summaries`;
+}
 
-**EXAMPLE FORMAT:**
-"The meeting focused on the Q2 product roadmap. The team discussed concerns about missing the launch deadline due to design delays. Sarah from marketing emphasized the importance of hitting the April launch to align with their campaign. John proposed reallocating two developers from the maintenance team to accelerate development. After some debate about resource constraints, they agreed to this approach and set up a checkpoint meeting for next week. The overall tone was urgent but optimistic about meeting the revised timeline."
+function buildRepairPrompt(prompt: string, response: string, errors: string[]): string {
+  return `${prompt}
 
-Now explain this conversation naturally and concisely:`;
-}
+**YOUR PREVIOUS RESPONSE:**
+${response}
 
-function parseSummaryJson(text: string): Omit<MeetingSummary, "duration" | "participantCount"> {
-  try {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) throw new Error("No JSON found");
+**IT FAILED VALIDATION:**
+${errors.map((error) => `- ${error}`).join("\n")}
 
-    const parsed = JSON.parse(jsonMatch[0]);
+Respond again with the corrected JSON only.`;
+}
 
-    return {
-      executiveSummary: parsed.executiveSummary || "No summary available",
-      keyPoints: parsed.keyPoints || [],
-      actionItems: parsed.actionItems || [],
-      decisions: parsed.decisions || [],
-      keyTimestamps: parsed.keyTimestamps || [],
-    };
-  } catch (error) {
-    console.error("[Summary] json parsing faild:", error);
-    return {
-      executiveSummary: text.slice(0, 300),
-      keyPoints: [],
-      actionItems: [],
-      decisions: [],
-      keyTimestamps: [],
-    };
+function parseJsonObject(text: string): Record<string, unknown> {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error("No JSON found in summary response");
+
+  const parsed = JsonObjectSchema.safeParse(JSON.parse(jsonMatch[0]));
+  if (!parsed.success) {
+    throw new Error("Summary response is not a JSON object");
   }
+
+  return parsed.data;
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function normalizeOffset(time: unknown): string | undefined {
+  const ms = typeof time === "string" ? parseOffset(time) : null;
+  return ms === null ? undefined : formatOffset(ms);
+}
+
+function parseOffset(time: string): number | null {
+  const parts = time
+    .trim()
+    .split(":")
+    .map((part) => parseInt(part, 10));
+  if (parts.length < 2 || parts.some((part) => isNaN(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0) * 1000;
 }
 
 async function logSummaryAttempt(
@@ -0,0 +1,461 @@
+import os from "os";
+import type { Prisma } from "@prisma/client";
+import { prisma as db } from "@/lib/db";
+import type { SummaryOptions } from "@/lib/transcriptionEngine";
+import type { RetranscribeOverrides } from "../schemas/transcript.schema";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job<T> {
+  id: string;
+  type: string;
+  data: T;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  createdAt: Date;
+  runAt: Date;
+  lastError?: string | null;
+}
+
+interface JobHandler<T> {
+  (job: Job<T>): Promise<void>;
+}
+
+interface QueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  backoffMs?: number;
+  exponentialBackoff?: boolean;
+  // how long a claimed job stays invisible to other workers without a heartbeat
+  visibilityTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+interface AddOptions {
+  maxAttempts?: number;
+  backoffMs?: number;
+  delayMs?: number;
+}
+
+export interface FailedJob<T> extends Job<T> {
+  failedAt: Date;
+}
+
+// narrows dead-letter operations, an empty filter matches every failed job of the queue
+export interface FailedJobFilter {
+  jobId?: string;
+  sessionId?: string;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  createdAt: Date;
+  runAt: Date;
+  lastError: string | null;
+}
+
+/**
+ * Thrown by a handler to run the job again later without using up an attempt,
+ * e.g. finalization waiting for chunks that are still transcribing
+ */
+export class DeferJobError extends Error {
+  constructor(
+    readonly delayMs: number,
+    reason = "deferred"
+  ) {
+    super(reason);
+    this.name = "DeferJobError";
+  }
+}
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const COMPLETED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Job queue backed by the Job table
+ * Workers claim rows with FOR UPDATE SKIP LOCKED, so several processes can share a queue
+ * and nothing queued or retrying is lost on restart. Running jobs hold a visibility
+ * timeout that a heartbeat extends; if the worker dies the job becomes claimable again.
+ */
+export class PostgresQueue<T> {
+  private handlers: JobHandler<T>[] = [];
+  private processing = new Set<string>();
+  private options: Required<QueueOptions>;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPrunedAt = 0;
+
+  constructor(
+    readonly type: string,
+    options: QueueOptions = {}
+  ) {
+    this.options = {
+      concurrency: options.concurrency ?? 5,
+      maxAttempts: options.maxAttempts ?? 3,
+      backoffMs: options.backoffMs ?? 1000,
+      exponentialBackoff: options.exponentialBackoff ?? true,
+      visibilityTimeoutMs: options.visibilityTimeoutMs ?? 5 * 60 * 1000,
+      pollIntervalMs: options.pollIntervalMs ?? 1000,
+    };
+  }
+
+  /**
+   * Register a handler and start polling, only the server process calls this
+   */
+  process(handler: JobHandler<T>): void {
+    this.handlers.push(handler);
+
+    if (!this.pollTimer) {
+      this.pollTimer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    }
+    this.poll();
+  }
+
+  /**
+   * Persist a job, safe to call from any process (API routes included)
+   */
+  async add(data: T, options: AddOptions = {}): Promise<string> {
+    const job = await db.job.create({
+      data: {
+        type: this.type,
+        payload: data as Prisma.InputJsonValue,
+        maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+        backoffMs: options.backoffMs ?? this.options.backoffMs,
+        runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+      },
+    });
+
+    console.log(`[Queue] Job added: ${this.type}/${job.id}`);
+
+    this.poll();
+
+    return job.id;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.handlers.length === 0 || this.polling) return;
+
+    const capacity = this.options.concurrency - this.processing.size;
+    if (capacity <= 0) return;
+
+    this.polling = true;
+    try {
+      const jobs = await this.claim(capacity);
+
+      for (const job of jobs) {
+        this.processing.add(job.id);
+        // a failed status write must not become an unhandled rejection, the
+        // visibility timeout hands the job out again
+        this.processJob(job)
+          .catch((error) => console.error(`[Queue] ${this.type} job ${job.id} failed:`, error))
+          .finally(() => {
+            this.processing.delete(job.id);
+            this.poll();
+          });
+      }
+
+      await this.pruneCompleted();
+    } catch (error) {
+      console.error(`[Queue] ${this.type} poll failed:`, error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Claim due jobs plus running ones whose visibility timeout lapsed (their worker died)
+   */
+  private async claim(limit: number): Promise<Job<T>[]> {
+    const lockedUntil = new Date(Date.now() + this.options.visibilityTimeoutMs);
+
+    const rows = await db.$queryRaw<JobRow[]>`
+      UPDATE "Job"
+      SET "status" = 'running',
+          "attempts" = "attempts" + 1,
+          "lockedBy" = ${WORKER_ID},
+          "lockedUntil" = ${lockedUntil},
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "Job"
+        WHERE "type" = ${this.type}
+          AND (
+            ("status" = 'queued' AND "runAt" <= NOW())
+            OR ("status" = 'running' AND "lockedUntil" < NOW())
+          )
+        ORDER BY "runAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "type", "payload", "attempts", "maxAttempts", "backoffMs", "createdAt", "runAt", "lastError"
+    `;
+
+    return rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      data: row.payload as T,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      backoffMs: row.backoffMs,
+      createdAt: row.createdAt,
+      runAt: row.runAt,
+      lastError: row.lastError,
+    }));
+  }
+
+  private async processJob(job: Job<T>): Promise<void> {
+    // a reclaimed job whose worker died on its last attempt
+    if (job.attempts > job.maxAttempts) {
+      await this.fail(job, job.lastError || "Visibility timeout expired on final attempt");
+      return;
+    }
+
+    console.log(
+      `[Queue] Processing job: ${this.type}/${job.id}, attempt ${job.attempts}/${job.maxAttempts}`
+    );
+
+    const heartbeat = setInterval(
+      () => this.extendLock(job.id),
+      Math.max(1000, this.options.visibilityTimeoutMs / 3)
+    );
+
+    try {
+      for (const handler of this.handlers) {
+        await handler(job);
+      }
+    } catch (error) {
+      if (error instanceof DeferJobError) {
+        await this.reschedule(job, error.delayMs, { refundAttempt: true });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      console.error(
+        `[Queue] Job failed: ${this.type}/${job.id}, attempt ${job.attempts}/${job.maxAttempts}`,
+        errorMessage
+      );
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = this.calculateBackoff(job);
+        console.log(`[Queue] Retrying job ${job.id} in ${delay}ms`);
+        await this.reschedule(job, delay, { lastError: errorMessage });
+      } else {
+        console.error(`[Queue] Job permanently failed after ${job.attempts} attempts: ${job.id}`);
+        await this.fail(job, errorMessage);
+      }
+      return;
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    // outside the try, a failed write must not send a job that succeeded back for a retry
+    const completed = await this.release(job, { status: "completed", completedAt: new Date() });
+    if (completed) {
+      console.log(
+        `[Queue] Job completed: ${this.type}/${job.id}, time: ${Date.now() - job.createdAt.getTime()}ms`
+      );
+    }
+  }
+
+  private async reschedule(
+    job: Job<T>,
+    delayMs: number,
+    options: { lastError?: string; refundAttempt?: boolean }
+  ): Promise<void> {
+    await this.release(job, {
+      status: "queued",
+      runAt: new Date(Date.now() + delayMs),
+      ...(options.lastError !== undefined && { lastError: options.lastError }),
+      ...(options.refundAttempt && { attempts: { decrement: 1 } }),
+    });
+  }
+
+  private async fail(job: Job<T>, errorMessage: string): Promise<void> {
+    await this.release(job, { status: "failed", lastError: errorMessage });
+  }
+
+  /**
+   * Record the outcome of a claimed job and drop the claim
+   * Only while this worker still holds it, a job whose visibility timeout ran out may
+   * have been claimed by another worker since and its outcome belongs to that run
+   *
+   * @returns false when the claim was lost and nothing was written
+   */
+  private async release(job: Job<T>, data: Prisma.JobUpdateManyMutationInput): Promise<boolean> {
+    const { count } = await db.job.updateMany({
+      where: { id: job.id, lockedBy: WORKER_ID },
+      data: { ...data, lockedBy: null, lockedUntil: null },
+    });
+
+    if (count === 0) {
+      console.warn(`[Queue] Lost the claim on ${this.type}/${job.id}, its outcome wasn't recorded`);
+    }
+    return count > 0;
+  }
+
+  private async extendLock(jobId: string): Promise<void> {
+    try {
+      await db.job.updateMany({
+        where: { id: jobId, status: "running", lockedBy: WORKER_ID },
+        data: { lockedUntil: new Date(Date.now() + this.options.visibilityTimeoutMs) },
+      });
+    } catch (error) {
+      console.error(`[Queue] heartbeat failed for ${jobId}:`, error);
+    }
+  }
+
+  private calculateBackoff(job: Job<T>): number {
+    if (this.options.exponentialBackoff) {
+      return Math.min(job.backoffMs * Math.pow(2, job.attempts - 1), 30000);
+    }
+    return job.backoffMs;
+  }
+
+  // completed rows are only useful for a while, failed ones stay until retried
+  private async pruneCompleted(): Promise<void> {
+    if (Date.now() - this.lastPrunedAt < 60 * 60 * 1000) return;
+    this.lastPrunedAt = Date.now();
+
+    const { count } = await db.job.deleteMany({
+      where: {
+        type: this.type,
+        status: "completed",
+        completedAt: { lt: new Date(Date.now() - COMPLETED_RETENTION_MS) },
+      },
+    });
+
+    if (count > 0) console.log(`[Queue] Pruned ${count} completed ${this.type} jobs`);
+  }
+
+  async getStats() {
+    const counts = await db.job.groupBy({
+      by: ["status"],
+      where: { type: this.type },
+      _count: { _all: true },
+    });
+    const byStatus = Object.fromEntries(counts.map((row) => [row.status, row._count._all]));
+
+    return {
+      queued: byStatus.queued ?? 0,
+      processing: byStatus.running ?? 0,
+      completed: byStatus.completed ?? 0,
+      failed: byStatus.failed ?? 0,
+      concurrency: this.options.concurrency,
+    };
+  }
+
+  /**
+   * Queued or running jobs working on a session
+   */
+  async countActive(sessionId: string): Promise<number> {
+    return db.job.count({
+      where: {
+        type: this.type,
+        status: { in: ["queued", "running"] },
+        payload: { path: ["sessionId"], equals: sessionId },
+      },
+    });
+  }
+
+  /**
+   * Permanently failed jobs (the dead-letter set), newest failure first
+   */
+  async getFailedJobs(filter: FailedJobFilter = {}): Promise<FailedJob<T>[]> {
+    const rows = await db.job.findMany({
+      where: this.failedWhere(filter),
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      data: row.payload as T,
+      attempts: row.attempts,
+      maxAttempts: row.maxAttempts,
+      backoffMs: row.backoffMs,
+      createdAt: row.createdAt,
+      runAt: row.runAt,
+      lastError: row.lastError,
+      failedAt: row.updatedAt,
+    }));
+  }
+
+  /**
+   * Requeue failed jobs with a fresh set of attempts
+   */
+  async retryFailedJobs(filter: FailedJobFilter = {}): Promise<number> {
+    const { count } = await db.job.updateMany({
+      where: this.failedWhere(filter),
+      data: { status: "queued", attempts: 0, lastError: null, runAt: new Date() },
+    });
+
+    this.poll();
+
+    return count;
+  }
+
+  async discardFailedJobs(filter: FailedJobFilter = {}): Promise<number> {
+    const { count } = await db.job.deleteMany({ where: this.failedWhere(filter) });
+    return count;
+  }
+
+  // every job payload carries the sessionId it works on
+  private failedWhere(filter: FailedJobFilter) {
+    return {
+      type: this.type,
+      status: "failed",
+      ...(filter.jobId && { id: filter.jobId }),
+      ...(filter.sessionId && { payload: { path: ["sessionId"], equals: filter.sessionId } }),
+    };
+  }
+}
+
+export const transcriptionQueue = new PostgresQueue<{
+  sessionId: string;
+  sequence: number;
+  // set on re-transcriptions, the previous result is kept as a version first
+  retranscribe?: RetranscribeOverrides;
+}>("transcription", {
+  concurrency: 3,
+  maxAttempts: 3,
+  backoffMs: 1000,
+  exponentialBackoff: true,
+});
+
+export const finalizeQueue = new PostgresQueue<{ sessionId: string }>("finalize", {
+  concurrency: 2,
+  maxAttempts: 3,
+  backoffMs: 5000,
+  // summaries of long meetings take minutes, the heartbeat keeps the claim alive
+  visibilityTimeoutMs: 10 * 60 * 1000,
+});
+
+export const summaryQueue = new PostgresQueue<{
+  sessionId: string;
+  templateId?: string;
+  options: SummaryOptions;
+}>("summary", {
+  concurrency: 2,
+  maxAttempts: 2,
+  backoffMs: 5000,
+  visibilityTimeoutMs: 10 * 60 * 1000,
+});
+
+export const uploadQueue = new PostgresQueue<{ sessionId: string; filePath: string }>("upload", {
+  concurrency: 1,
+  maxAttempts: 2,
+  backoffMs: 5000,
+  visibilityTimeoutMs: 10 * 60 * 1000,
+});
+
+export const liveSummaryQueue = new PostgresQueue<{ sessionId: string }>("live-summary", {
+  concurrency: 1,
+  maxAttempts: 2,
+  backoffMs: 5000,
+});
@@ -1,10 +1,14 @@
 import { z } from "zod";
 
+import { ENGINE_NAMES } from "@/lib/transcriptionEngine";
+
 export const StartSessionSchema = z.object({
   sessionId: z.string().uuid("Session ID must be a valid UUID"),
   userId: z.string().min(1, "User ID is required"),
   title: z.string().min(1, "Session title is required").optional(),
   source: z.enum(["mic", "tab"]).default("mic"),
+  engine: z.enum(ENGINE_NAMES).optional(),
+  summaryTemplate: z.string().min(1).max(100).optional(),
 });
 
 export type StartSessionPayload = z.infer<typeof StartSessionSchema>;
@@ -13,6 +17,8 @@ export const AudioChunkSchema = z.object({
   sessionId: z.string().uuid("Session ID must be a valid UUID"),
   sequence: z.number().int().nonnegative("Sequence must be a non-negative integer"),
   timestamp: z.number().int().positive("Timestamp must be a positive integer"),
+  // recorder clock with pauses excluded, older clients don't send it
+  elapsedMs: z.number().int().nonnegative("Elapsed time must be a non-negative integer").optional(),
   size: z.number().int().positive("Size must be a positive integer"),
   mimeType: z.string().regex(/^audio\//, "MIME type must be an audio type"),
   audio: z.any(),
@@ -20,6 +26,28 @@ export const AudioChunkSchema = z.object({
 
 export type AudioChunkPayload = z.infer<typeof AudioChunkSchema>;
 
+// short sub-slice of the chunk being recorded, transcribed provisionally and never stored
+export const InterimSliceSchema = z.object({
+  sessionId: z.string().uuid("Session ID must be a valid UUID"),
+  sequence: z.number().int().nonnegative("Sequence must be a non-negative integer"),
+  index: z.number().int().nonnegative("Index must be a non-negative integer"),
+  timestamp: z.number().int().nonnegative("Timestamp must be a non-negative integer"),
+  mimeType: z.string().regex(/^audio\//, "MIME type must be an audio type"),
+  audio: z.any(),
+});
+
+export type InterimSlicePayload = z.infer<typeof InterimSliceSchema>;
+
+// "this was important" marker, offsetMs is the position in the recorded audio
+export const BookmarkSchema = z.object({
+  sessionId: z.string().uuid("Session ID must be a valid UUID"),
+  offsetMs: z.number().int().nonnegative("Offset must be a non-negative integer"),
+  sequence: z.number().int().nonnegative("Sequence must be a non-negative integer").optional(),
+  note: z.string().trim().max(500, "Note must be at most 500 characters").optional(),
+});
+
+export type BookmarkPayload = z.infer<typeof BookmarkSchema>;
+
 export const PauseSessionSchema = z.object({
   sessionId: z.string().uuid("Session ID must be a valid UUID"),
   pausedAt: z.number().int().positive("Paused timestamp must be a positive integer"),
@@ -34,6 +62,13 @@ export const ResumeSessionSchema = z.object({
 
 export type ResumeSessionPayload = z.infer<typeof ResumeSessionSchema>;
 
+// sent by a client reconnecting with a session still open, e.g. after a server restart
+export const RejoinSessionSchema = z.object({
+  sessionId: z.string().uuid("Session ID must be a valid UUID"),
+});
+
+export type RejoinSessionPayload = z.infer<typeof RejoinSessionSchema>;
+
 export const StopSessionSchema = z.object({
   sessionId: z.string().uuid("Session ID must be a valid UUID"),
   userId: z.string().optional(),
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { ENGINE_NAMES } from "@/lib/transcriptionEngine";
+import { isSafeAlertRegex } from "../utils/alertRegex";
 export const SpeakerSegmentSchema = z.object({
   seq: z.number().int().nonnegative(),
   speaker: z.string().nullable(),
@@ -11,6 +13,23 @@ export const SpeakerSegmentSchema = z.object({
 
 export type SpeakerSegment = z.infer<typeof SpeakerSegmentSchema>;
 
+// one speaker turn from diarized transcription, offsets relative to the chunk audio
+export const DiarizedTurnSchema = z
+  .object({
+    speaker: z.string().min(1),
+    startMs: z.number().nonnegative(),
+    endMs: z.number().nonnegative(),
+    text: z.string(),
+  })
+  .refine((turn) => turn.endMs >= turn.startMs, {
+    message: "endMs must not be before startMs",
+    path: ["endMs"],
+  });
+
+export const DiarizedTranscriptSchema = z.array(DiarizedTurnSchema);
+
+export type DiarizedTurn = z.infer<typeof DiarizedTurnSchema>;
+
 export const TranscriptEventSchema = z.object({
   sessionId: z.string().uuid(),
   seq: z.number().int().nonnegative(),
@@ -53,9 +72,110 @@ export const KeyTimestampSchema = z.object({
 
 export type KeyTimestamp = z.infer<typeof KeyTimestampSchema>;
 
+export const SummarySourceSchema = z.object({
+  seq: z.number().int().nonnegative(),
+  startMs: z.number().int().nonnegative(),
+  endMs: z.number().int().nonnegative(),
+  timestamp: z.string(),
+});
+
+export type SummarySource = z.infer<typeof SummarySourceSchema>;
+
+export const KeyPointSourceSchema = z.object({
+  point: z.string(),
+  sources: z.array(SummarySourceSchema),
+});
+
+export type KeyPointSource = z.infer<typeof KeyPointSourceSchema>;
+
+// one extra output field of a summary template, "list" fields hold string arrays
+export const SummaryTemplateFieldSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-zA-Z][a-zA-Z0-9_]{0,39}$/, "Key must be an identifier of up to 40 characters"),
+  label: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(300).optional(),
+  type: z.enum(["text", "list"]),
+});
+
+export type SummaryTemplateField = z.infer<typeof SummaryTemplateFieldSchema>;
+
+export const SummaryTemplateInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(300).nullable().optional(),
+  prompt: z.string().trim().min(1).max(4000),
+  fields: z
+    .array(SummaryTemplateFieldSchema)
+    .max(12)
+    .refine((fields) => new Set(fields.map((f) => f.key)).size === fields.length, {
+      message: "Field keys must be unique",
+    })
+    .default([]),
+});
+
+export type SummaryTemplateInput = z.infer<typeof SummaryTemplateInputSchema>;
+
+export const ALERT_RULE_TYPES = ["keyword", "phrase", "regex"] as const;
+
+// keywords are single words, phrases match across any whitespace, regex is used as-is (case-insensitive)
+export const AlertRuleInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    type: z.enum(ALERT_RULE_TYPES),
+    patterns: z.array(z.string().trim().min(1).max(200)).min(1).max(50),
+    speaker: z.string().trim().min(1).max(100).nullable().optional(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    rule.patterns.forEach((pattern, index) => {
+      if (rule.type === "keyword" && /\s/.test(pattern)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Keywords can't contain spaces, use a phrase rule",
+          path: ["patterns", index],
+        });
+      }
+
+      if (rule.type === "regex") {
+        try {
+          new RegExp(pattern, "i");
+        } catch {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Invalid regular expression",
+            path: ["patterns", index],
+          });
+          return;
+        }
+
+        if (!isSafeAlertRegex(pattern)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Backreferences and repeated groups with quantifiers or | aren't allowed",
+            path: ["patterns", index],
+          });
+        }
+      }
+    });
+  });
+
+export type AlertRuleInput = z.infer<typeof AlertRuleInputSchema>;
+
+// body of POST /api/sessions/[sessionId]/summary, every field is optional
+export const SummaryRegenerateSchema = z.object({
+  templateId: z.string().min(1).max(100).optional(),
+  maxLength: z.number().int().min(50).max(2000).optional(),
+  focusAreas: z.array(z.string().trim().min(1).max(100)).max(10).optional(),
+  format: z.enum(["paragraph", "bullets"]).optional(),
+  language: z.string().trim().min(2).max(40).optional(),
+});
+
+export type SummaryRegenerate = z.infer<typeof SummaryRegenerateSchema>;
+
 export const SummaryJSONSchema = z.object({
   executiveSummary: z.string(),
   keyPoints: z.array(z.string()),
+  keyPointSources: z.array(KeyPointSourceSchema).optional(),
   actionItems: z.array(ActionItemSchema),
   decisions: z.array(DecisionSchema),
   keyTimestamps: z.array(KeyTimestampSchema),
@@ -64,26 +184,97 @@ export const SummaryJSONSchema = z.object({
   topics: z.array(z.string()).optional(),
   sentiment: z.enum(["positive", "neutral", "negative"]).optional(),
   nextSteps: z.array(z.string()).optional(),
+  template: z
+    .object({ id: z.string(), name: z.string(), version: z.number().int().positive() })
+    .optional(),
+  // template-specific output, keyed by SummaryTemplateField.key
+  fields: z.record(z.union([z.string(), z.array(z.string())])).optional(),
 });
 
 export type SummaryJSON = z.infer<typeof SummaryJSONSchema>;
 
+// what the model returns for one rolling update during recording
+export const LiveSummaryUpdateSchema = z.object({
+  summary: z.string(),
+  actionItems: z.array(ActionItemSchema),
+});
+
+// rolling "so far" summary, throughSeq is the last chunk folded into it
+export const LiveSummarySchema = LiveSummaryUpdateSchema.extend({
+  throughSeq: z.number().int().nonnegative(),
+  updatedAt: z.string().datetime(),
+});
+
+export type LiveSummary = z.infer<typeof LiveSummarySchema>;
+
 export const SpeakerInfoSchema = z.object({
   id: z.string(),
   label: z.string(),
   segmentCount: z.number().int().nonnegative(),
   totalDurationMs: z.number().int().nonnegative().optional(),
   customName: z.string().optional(),
+  mergedInto: z.string().optional(),
 });
 
 export type SpeakerInfo = z.infer<typeof SpeakerInfoSchema>;
 
+// rename (name) and/or merge (mergeInto) a speaker label, null clears either one
+export const SpeakerUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).nullable().optional(),
+    mergeInto: z.string().min(1).nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.mergeInto !== undefined, {
+    message: "Provide name or mergeInto",
+  });
+
+export type SpeakerUpdate = z.infer<typeof SpeakerUpdateSchema>;
+
+// per-request changes for re-transcribing chunks, unset fields keep the session defaults
+export const RetranscribeOverridesSchema = z.object({
+  engine: z.enum(ENGINE_NAMES).optional(),
+  // passed to the engine (and to faster-whisper's argv), so no leading dash or spaces
+  model: z
+    .string()
+    .regex(/^[A-Za-z0-9][\w.:/-]{0,99}$/, "Invalid model name")
+    .optional(),
+  language: z
+    .string()
+    .regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/, "Use a language tag like en or de-DE")
+    .optional(),
+  diarization: z.boolean().optional(),
+  // ffmpeg highpass/lowpass/denoise chain before transcription
+  filters: z.boolean().optional(),
+});
+
+export type RetranscribeOverrides = z.infer<typeof RetranscribeOverridesSchema>;
+
+export const SessionRetranscribeSchema = RetranscribeOverridesSchema.extend({
+  onlyFailed: z.boolean().optional(),
+});
+
+export const AskRequestSchema = z.object({
+  question: z.string().trim().min(3).max(500),
+  limit: z.number().int().min(1).max(20).optional(),
+  sessionIds: z.array(z.string().uuid()).max(50).optional(),
+});
+
+export type AskRequest = z.infer<typeof AskRequestSchema>;
+
 
 export const SessionTranscriptSchema = z.object({
   sessionId: z.string().uuid(),
   userId: z.string(),
   title: z.string(),
-  status: z.enum(["recording", "paused", "stopped", "processing", "completed", "failed"]),
+  status: z.enum([
+    "recording",
+    "paused",
+    "interrupted",
+    "stopped",
+    "processing",
+    "completed",
+    "failed",
+  ]),
   startedAt: z.string().datetime(),
   endedAt: z.string().datetime().nullable(),
   durationMs: z.number().int().nonnegative().optional(),
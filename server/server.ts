@@ -4,6 +4,11 @@ import next from "next";
 import { Server } from "socket.io";
 import { setupRecordingSockets } from "./sockets/recording";
 import { initializeTranscriptionWorker } from "./workers/transcription.worker";
+import { initializeFinalizeWorker } from "./workers/finalize.worker";
+import { initializeSummaryWorker } from "./workers/summary.worker";
+import { initializeUploadWorker } from "./workers/upload.worker";
+import { initializeLiveSummaryWorker } from "./workers/liveSummary.worker";
+import { initializeRecoveryWorker } from "./workers/recovery.worker";
 
 const dev = process.env.NODE_ENV !== "production";
 const hostname = "localhost";
@@ -47,6 +52,13 @@ app.prepare().then(() => {
   });
 
   initializeTranscriptionWorker();
+  initializeFinalizeWorker();
+  initializeSummaryWorker();
+  initializeUploadWorker();
+  initializeLiveSummaryWorker();
+
+  // re-queue work and interrupt sessions left behind by a previous crash
+  initializeRecoveryWorker();
 
   server.listen(port, () => {
     console.log(`> Ready on http://${hostname}:${port}`);
@@ -2,8 +2,11 @@ import { Server, Socket } from "socket.io";
 import {
   StartSessionSchema,
   AudioChunkSchema,
+  InterimSliceSchema,
+  BookmarkSchema,
   PauseSessionSchema,
   ResumeSessionSchema,
+  RejoinSessionSchema,
   StopSessionSchema,
   safeValidateSocketPayload,
 } from "../schemas/socket.schema";
@@ -20,8 +23,14 @@ import {
 import { sessionManager } from "../managers/SessionManager";
 import { chunkManager } from "../managers/ChunkManager";
 import { socketManager } from "../managers/SocketManager";
-import { finalizeSession } from "../processors/finalize";
+import { queueFinalization } from "../workers/finalize.worker";
+import { findSummaryTemplate } from "../utils/summaryTemplates";
 import { queueTranscription } from "../workers/transcription.worker";
+import { isInterimTranscriptionEnabled, transcribeInterimSlice } from "../processors/interim";
+import { addBookmark } from "../utils/bookmarks";
+
+// statuses a reconnecting client can pick a session back up from
+const REJOINABLE_STATUSES = ["recording", "paused", "interrupted"];
 
 // setup socket handlers for recoreding sessions
 export function setupRecordingSockets(io: Server, socket: Socket) {
@@ -30,14 +39,14 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
   });
 
   const backpressureManager = getBackpressureManager(socket.id);
-  let authenticatedUserId: string | null = null;
 
-  socketManager.authenticate(socket).then((userId) => {
-    authenticatedUserId = userId;
+  // handlers await this, a reconnecting client emits before the session lookup is done
+  const authenticated = socketManager.authenticate(socket).then((userId) => {
     if (!userId) {
       socket.emit("auth-error", { error: "Authentication required" });
       socket.disconnect(true);
     }
+    return userId;
   });
 
   socket.on("join", (room: string) => {
@@ -51,6 +60,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
   });
 
   socket.on("start-session", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
     if (!authenticatedUserId) {
       socket.emit("session-error", { error: "Unauthorized" });
       return;
@@ -90,12 +100,21 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
       // Check rate limits
       await checkSessionRateLimit(data.userId);
 
+      if (data.summaryTemplate && !(await findSummaryTemplate(data.summaryTemplate, data.userId))) {
+        socket.emit("session-error", {
+          error: `Unknown summary template: ${data.summaryTemplate}`,
+        });
+        return;
+      }
+
       // Create session using manager
       const session = await sessionManager.createSession({
         sessionId: data.sessionId,
         userId: data.userId,
         title: data.title || `Recording - ${new Date().toLocaleString()}`,
         source: data.source || "mic",
+        engine: data.engine,
+        summaryTemplateId: data.summaryTemplate,
       });
 
       registerActiveSession(data.userId, data.sessionId);
@@ -132,6 +151,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
   socket.on("audio-chunk", async (rawData: unknown) => {
     const chunkStartTime = Date.now();
 
+    const authenticatedUserId = await authenticated;
     if (!authenticatedUserId) {
       socket.emit("chunk-error", { error: "Unauthorized" });
       return;
@@ -198,20 +218,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
         return;
       }
 
-      let audioBuffer: Buffer;
-      if (Buffer.isBuffer(data.audio)) {
-        audioBuffer = data.audio;
-      } else if (data.audio instanceof ArrayBuffer) {
-        audioBuffer = Buffer.from(data.audio);
-      } else if (data.audio.buffer && data.audio.buffer instanceof ArrayBuffer) {
-        // Uint8Array or similar
-        audioBuffer = Buffer.from(data.audio.buffer);
-      } else if (typeof data.audio === "object" && data.audio.data) {
-        // Socket.io may wrap it
-        audioBuffer = Buffer.from(data.audio.data);
-      } else {
-        throw new Error("Invalid audio data format");
-      }
+      const audioBuffer = toAudioBuffer(data.audio);
 
       if (audioBuffer.length === 0) {
         console.warn(`[AudioRecorder] Empty chunk received for session ${data.sessionId}`);
@@ -224,6 +231,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
           sessionId: data.sessionId,
           sequence: data.sequence,
           timestamp: data.timestamp,
+          elapsedMs: data.elapsedMs,
           audioData: audioBuffer,
           mimeType: data.mimeType,
         },
@@ -262,7 +270,107 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
     }
   });
 
+  // provisional transcription of short sub-slices, best effort and never stored
+  socket.on("audio-interim", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
+    if (!authenticatedUserId || !isInterimTranscriptionEnabled()) return;
+
+    // full chunks come first, interim slices are simply dropped under load
+    if (!backpressureManager.canAccept()) return;
+
+    const validation = safeValidateSocketPayload(InterimSliceSchema, rawData);
+    if (!validation.success) return;
+
+    const data = validation.data;
+
+    try {
+      const ownsSession = await verifySessionOwnership(data.sessionId, authenticatedUserId);
+      if (!ownsSession) return;
+
+      const text = await transcribeInterimSlice({
+        sessionId: data.sessionId,
+        sequence: data.sequence,
+        index: data.index,
+        audio: toAudioBuffer(data.audio),
+      });
+      if (!text) return;
+
+      io.to(`session:${data.sessionId}`).emit("transcript-interim", {
+        sessionId: data.sessionId,
+        sequence: data.sequence,
+        index: data.index,
+        text,
+        timestamp: data.timestamp,
+      });
+    } catch (error) {
+      console.warn(
+        `[Interim] slice ${data.sessionId}/${data.sequence}.${data.index} failed:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  });
+
+  // "this was important" marker from the recording hotkey
+  socket.on("bookmark", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
+    if (!authenticatedUserId) {
+      socket.emit("bookmark-error", { error: "Unauthorized" });
+      return;
+    }
+
+    const validation = safeValidateSocketPayload(BookmarkSchema, rawData);
+
+    if (!validation.success) {
+      socket.emit("bookmark-error", { error: "Invalid bookmark data" });
+      return;
+    }
+
+    const data = validation.data;
+
+    try {
+      const ownsSession = await verifySessionOwnership(data.sessionId, authenticatedUserId);
+      if (!ownsSession) {
+        socket.emit("bookmark-error", { sessionId: data.sessionId, error: "Unauthorized" });
+        return;
+      }
+
+      const session = await sessionManager.getSession(data.sessionId);
+      if (!session || !REJOINABLE_STATUSES.includes(session.status)) {
+        socket.emit("bookmark-error", {
+          sessionId: data.sessionId,
+          error: `Session is ${session?.status ?? "missing"}, cannot bookmark`,
+        });
+        return;
+      }
+
+      const bookmark = await addBookmark({
+        sessionId: data.sessionId,
+        userId: authenticatedUserId,
+        offsetMs: data.offsetMs,
+        sequence: data.sequence,
+        note: data.note,
+      });
+
+      io.to(`session:${data.sessionId}`).emit("bookmark-added", {
+        sessionId: data.sessionId,
+        ...bookmark,
+      });
+    } catch (error) {
+      sessionLogger.error({
+        sessionId: data.sessionId,
+        error: error instanceof Error ? error : new Error(String(error)),
+        operation: "bookmark",
+      });
+
+      socket.emit("bookmark-error", {
+        sessionId: data.sessionId,
+        error: "Failed to save bookmark",
+      });
+    }
+  });
+
   socket.on("pause-session", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
     if (!authenticatedUserId) {
       socket.emit("session-error", { error: "Unauthorized" });
       return;
@@ -305,6 +413,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
 
   // Resume session
   socket.on("resume-session", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
     if (!authenticatedUserId) {
       socket.emit("session-error", { error: "Unauthorized" });
       return;
@@ -345,8 +454,65 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
     }
   });
 
+  // Reattach after a reconnect, interrupted sessions accept chunks again
+  socket.on("rejoin-session", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
+    if (!authenticatedUserId) {
+      socket.emit("session-error", { error: "Unauthorized" });
+      return;
+    }
+
+    const validation = safeValidateSocketPayload(RejoinSessionSchema, rawData);
+
+    if (!validation.success) {
+      socket.emit("session-error", { error: "Invalid rejoin data" });
+      return;
+    }
+
+    const data = validation.data;
+
+    try {
+      const ownsSession = await verifySessionOwnership(data.sessionId, authenticatedUserId);
+      if (!ownsSession) {
+        socket.emit("session-error", { error: "Unauthorized" });
+        return;
+      }
+
+      const session = await sessionManager.getSession(data.sessionId);
+      if (!session || !REJOINABLE_STATUSES.includes(session.status)) {
+        socket.emit("session-error", {
+          sessionId: data.sessionId,
+          error: `Session is ${session?.status ?? "missing"}, cannot rejoin`,
+        });
+        return;
+      }
+
+      const { status, lastSequence } = await sessionManager.reattachSession(data.sessionId);
+
+      registerActiveSession(authenticatedUserId, data.sessionId);
+      socket.join(`session:${data.sessionId}`);
+
+      socket.emit("session-rejoined", {
+        sessionId: data.sessionId,
+        status,
+        lastSequence,
+      });
+    } catch (error) {
+      sessionLogger.error({
+        sessionId: data.sessionId,
+        error: error instanceof Error ? error : new Error(String(error)),
+        operation: "rejoin-session",
+      });
+
+      socket.emit("session-error", {
+        error: "Failed to rejoin session",
+      });
+    }
+  });
+
   // Stop session
   socket.on("stop-session", async (rawData: unknown) => {
+    const authenticatedUserId = await authenticated;
     if (!authenticatedUserId) {
       socket.emit("session-error", { error: "Unauthorized" });
       return;
@@ -385,9 +551,7 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
           console.log(`[Stop] Session completed after grace period: ${data.sessionId}`);
 
           // Trigger finalization (summary generation, etc.)
-          finalizeSession(data.sessionId).catch((error) => {
-            console.error(`[Stop] Finalization failed for ${data.sessionId}:`, error);
-          });
+          await queueFinalization(data.sessionId);
         } catch (error) {
           console.error(`[Stop] Failed to complete session ${data.sessionId}:`, error);
         }
@@ -413,3 +577,19 @@ export function setupRecordingSockets(io: Server, socket: Socket) {
     // Cleanup handled by socketManager
   });
 }
+
+// socket.io delivers binary payloads in a few shapes depending on the client transport
+function toAudioBuffer(audio: any): Buffer {
+  if (Buffer.isBuffer(audio)) {
+    return audio;
+  } else if (audio instanceof ArrayBuffer) {
+    return Buffer.from(audio);
+  } else if (audio?.buffer && audio.buffer instanceof ArrayBuffer) {
+    // Uint8Array or similar
+    return Buffer.from(audio.buffer);
+  } else if (typeof audio === "object" && audio?.data) {
+    // Socket.io may wrap it
+    return Buffer.from(audio.data);
+  }
+  throw new Error("Invalid audio data format");
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { isSafeAlertRegex } from "./alertRegex";
+
+describe("isSafeAlertRegex", () => {
+  it("accepts everyday patterns", () => {
+    expect(isSafeAlertRegex("refund(s)?")).toBe(true);
+    expect(isSafeAlertRegex("\\d+ dollars")).toBe(true);
+    expect(isSafeAlertRegex("(?:cancel|terminate) the contract")).toBe(true);
+    expect(isSafeAlertRegex("(a+)?")).toBe(true);
+    expect(isSafeAlertRegex("deadline.*friday")).toBe(true);
+  });
+
+  it("refuses nested quantifiers", () => {
+    expect(isSafeAlertRegex("(\\w+\\s?)+$")).toBe(false);
+    expect(isSafeAlertRegex("(a+)+")).toBe(false);
+    expect(isSafeAlertRegex("((ab)+)+")).toBe(false);
+    expect(isSafeAlertRegex("(a*){3}")).toBe(false);
+  });
+
+  it("refuses repeated groups with alternatives", () => {
+    expect(isSafeAlertRegex("(.|\\s)*cancel")).toBe(false);
+    expect(isSafeAlertRegex("(cat|dog)+")).toBe(false);
+    expect(isSafeAlertRegex("((.|\\s))*")).toBe(false);
+  });
+
+  it("refuses backreferences", () => {
+    expect(isSafeAlertRegex("(a|b)\\1")).toBe(false);
+    expect(isSafeAlertRegex("(?<word>\\w)\\k<word>")).toBe(false);
+  });
+
+  it("treats escapes and character classes as literals", () => {
+    expect(isSafeAlertRegex("\\\\1")).toBe(true);
+    expect(isSafeAlertRegex("[(+|]+")).toBe(true);
+    expect(isSafeAlertRegex("\\(a+\\)+")).toBe(true);
+  });
+});
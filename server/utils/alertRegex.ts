@@ -0,0 +1,46 @@
+/**
+ * Whether an alert regex is safe to run against transcripts
+ * Refuses backreferences and repeated groups that contain a quantifier or an
+ * alternation, like (\w+\s?)+ or (.|\s)*, the patterns that backtrack exponentially.
+ * Quantifiers and "|" inside character classes don't count
+ */
+export function isSafeAlertRegex(pattern: string): boolean {
+  // per open group, whether something inside it repeats or alternates
+  const groups: boolean[] = [];
+  let closedGroupRisky = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterGroup = closedGroupRisky;
+    closedGroupRisky = false;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i++;
+    } else if (char === "[") {
+      // skip the class, quantifier characters inside it are literals
+      i += pattern[i + 1] === "^" ? 2 : 1;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      closedGroupRisky = groups.pop() ?? false;
+      // ((.|\s))* is as bad as (.|\s)*
+      if (closedGroupRisky && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === "|") {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (
+      char === "+" ||
+      char === "*" ||
+      (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))
+    ) {
+      if (afterGroup) return false;
+      groups.fill(true);
+    }
+  }
+
+  return true;
+}
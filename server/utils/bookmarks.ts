@@ -0,0 +1,70 @@
+import { prisma as db } from "@/lib/db";
+
+export const BOOKMARK_EVENT_TYPE = "bookmark";
+
+export interface Bookmark {
+  id: string;
+  // position in the recorded audio, pauses excluded, see audioToSessionMs for segment time
+  offsetMs: number;
+  // chunk being recorded when the bookmark was made
+  sequence: number | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface BookmarkMetadata {
+  offsetMs?: number;
+  sequence?: number | null;
+  note?: string | null;
+}
+
+function toBookmark(event: { id: string; metadata: unknown; createdAt: Date }): Bookmark {
+  const metadata = (event.metadata ?? {}) as BookmarkMetadata;
+
+  return {
+    id: event.id,
+    offsetMs: typeof metadata.offsetMs === "number" ? metadata.offsetMs : 0,
+    sequence: typeof metadata.sequence === "number" ? metadata.sequence : null,
+    note: metadata.note || null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Store a bookmark as a RecordingEvent on the session timeline
+ */
+export async function addBookmark(params: {
+  sessionId: string;
+  userId: string;
+  offsetMs: number;
+  sequence?: number;
+  note?: string;
+}): Promise<Bookmark> {
+  const event = await db.recordingEvent.create({
+    data: {
+      sessionId: params.sessionId,
+      type: BOOKMARK_EVENT_TYPE,
+      actorId: params.userId,
+      metadata: {
+        offsetMs: params.offsetMs,
+        sequence: params.sequence ?? null,
+        note: params.note || null,
+      },
+    },
+  });
+
+  return toBookmark(event);
+}
+
+/**
+ * Bookmarks of a session in recording order
+ */
+export async function getBookmarks(sessionId: string): Promise<Bookmark[]> {
+  const events = await db.recordingEvent.findMany({
+    where: { sessionId, type: BOOKMARK_EVENT_TYPE },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, metadata: true, createdAt: true },
+  });
+
+  return events.map(toBookmark).sort((a, b) => a.offsetMs - b.offsetMs);
+}
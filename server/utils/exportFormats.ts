@@ -8,6 +8,10 @@
  * - TXT (plain text)
  */
 
+import type { AggregatedTranscript } from "./transcriptAggregation";
+import type { KeyPointSource } from "../schemas/transcript.schema";
+import type { Bookmark } from "./bookmarks";
+
 interface TranscriptSegment {
   seq: number;
   text: string;
@@ -17,12 +21,13 @@ interface TranscriptSegment {
   confidence?: number;
 }
 
-interface SessionTranscript {
+export interface SessionTranscript {
   sessionId: string;
   title?: string;
   segments: TranscriptSegment[];
   speakers?: string[];
   summary?: any;
+  bookmarks?: Pick<Bookmark, "offsetMs" | "note">[];
   metadata?: {
     duration?: number;
     createdAt?: string;
@@ -30,6 +35,35 @@ interface SessionTranscript {
   };
 }
 
+/**
+ * Build an exportable transcript from timed segments
+ */
+export function fromAggregatedTranscript(
+  aggregated: AggregatedTranscript,
+  session: { id: string; title?: string | null; summaryJSON?: unknown; createdAt: Date },
+  bookmarks: Bookmark[] = []
+): SessionTranscript {
+  return {
+    sessionId: session.id,
+    title: session.title || `Recording ${session.id.slice(0, 8)}`,
+    segments: aggregated.segments.map((segment) => ({
+      seq: segment.seq,
+      text: segment.text,
+      speaker: segment.speaker,
+      startTimeMs: segment.startTime,
+      endTimeMs: segment.endTime,
+      confidence: segment.confidence ?? undefined,
+    })),
+    speakers: aggregated.speakers,
+    summary: session.summaryJSON,
+    bookmarks,
+    metadata: {
+      duration: Math.round(aggregated.totalDuration / 1000),
+      createdAt: session.createdAt.toISOString(),
+    },
+  };
+}
+
 /**
  * Format milliseconds as SRT timestamp (HH:MM:SS,mmm)
  */
@@ -54,6 +88,16 @@ function formatVTTTimestamp(ms: number): string {
   return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${milliseconds.toString().padStart(3, "0")}`;
 }
 
+/**
+ * Format milliseconds as a clock time (M:SS)
+ */
+function formatClockTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
 /**
  * Convert transcript to SRT format
  */
@@ -61,8 +105,8 @@ export function toSRT(transcript: SessionTranscript): string {
   const lines: string[] = [];
 
   transcript.segments.forEach((segment, index) => {
-    const startMs = segment.startTimeMs || index * 5000;
-    const endMs = segment.endTimeMs || startMs + 5000;
+    const startMs = segment.startTimeMs ?? index * 5000;
+    const endMs = segment.endTimeMs ?? startMs + 5000;
 
     // Sequence number
     lines.push((index + 1).toString());
@@ -92,8 +136,8 @@ export function toVTT(transcript: SessionTranscript): string {
   }
 
   transcript.segments.forEach((segment, index) => {
-    const startMs = segment.startTimeMs || index * 5000;
-    const endMs = segment.endTimeMs || startMs + 5000;
+    const startMs = segment.startTimeMs ?? index * 5000;
+    const endMs = segment.endTimeMs ?? startMs + 5000;
 
     // Cue identifier (optional)
     lines.push(`${index + 1}`);
@@ -199,10 +243,34 @@ export function toMarkdown(transcript: SessionTranscript): string {
     lines.push("");
   }
 
+  const bookmarks = [...(transcript.bookmarks ?? [])].sort((a, b) => a.offsetMs - b.offsetMs);
+  const formatBookmark = (bookmark: { offsetMs: number; note: string | null }) =>
+    `🔖 **${formatClockTime(bookmark.offsetMs)}**${bookmark.note ? ` ${bookmark.note}` : ""}`;
+
+  if (bookmarks.length > 0) {
+    lines.push("## Bookmarks");
+    lines.push("");
+    bookmarks.forEach((bookmark) => lines.push(`- ${formatBookmark(bookmark)}`));
+    lines.push("");
+  }
+
   lines.push("## Transcript");
   lines.push("");
 
+  // bookmarks also sit in the transcript, before the first segment starting after them
+  let nextBookmark = 0;
+  const hasTimings = transcript.segments.some((segment) => segment.startTimeMs !== undefined);
+
   transcript.segments.forEach((segment) => {
+    while (
+      hasTimings &&
+      nextBookmark < bookmarks.length &&
+      bookmarks[nextBookmark].offsetMs <= (segment.startTimeMs ?? 0)
+    ) {
+      lines.push(`> ${formatBookmark(bookmarks[nextBookmark++])}`);
+      lines.push("");
+    }
+
     if (segment.speaker) {
       lines.push(`**${segment.speaker}:** ${segment.text}`);
     } else {
@@ -211,6 +279,11 @@ export function toMarkdown(transcript: SessionTranscript): string {
     lines.push("");
   });
 
+  while (hasTimings && nextBookmark < bookmarks.length) {
+    lines.push(`> ${formatBookmark(bookmarks[nextBookmark++])}`);
+    lines.push("");
+  }
+
   if (transcript.summary) {
     lines.push("## Summary");
     lines.push("");
@@ -220,11 +293,28 @@ export function toMarkdown(transcript: SessionTranscript): string {
       lines.push("");
     }
 
+    if (transcript.summary.fields) {
+      Object.entries(transcript.summary.fields as Record<string, string | string[]>).forEach(
+        ([key, value]) => {
+          lines.push(`### ${key}`);
+          lines.push("");
+          if (Array.isArray(value)) {
+            value.forEach((entry) => lines.push(`- ${entry}`));
+          } else {
+            lines.push(value || "-");
+          }
+          lines.push("");
+        }
+      );
+    }
+
     if (transcript.summary.keyPoints && transcript.summary.keyPoints.length > 0) {
       lines.push("### Key Points");
       lines.push("");
-      transcript.summary.keyPoints.forEach((point: string) => {
-        lines.push(`- ${point}`);
+      const sources: KeyPointSource[] | undefined = transcript.summary.keyPointSources;
+      transcript.summary.keyPoints.forEach((point: string, index: number) => {
+        const timestamps = sources?.[index]?.sources.map((source) => source.timestamp) ?? [];
+        lines.push(timestamps.length > 0 ? `- ${point} (${timestamps.join(", ")})` : `- ${point}`);
       });
       lines.push("");
     }
@@ -237,6 +327,28 @@ export function toMarkdown(transcript: SessionTranscript): string {
       });
       lines.push("");
     }
+
+    if (transcript.summary.decisions && transcript.summary.decisions.length > 0) {
+      lines.push("### Decisions");
+      lines.push("");
+      transcript.summary.decisions.forEach((decision: any) => {
+        lines.push(
+          decision.timestamp
+            ? `- ${decision.decision} (${decision.timestamp})`
+            : `- ${decision.decision}`
+        );
+      });
+      lines.push("");
+    }
+
+    if (transcript.summary.nextSteps && transcript.summary.nextSteps.length > 0) {
+      lines.push("### Next Steps");
+      lines.push("");
+      transcript.summary.nextSteps.forEach((step: string) => {
+        lines.push(`- ${step}`);
+      });
+      lines.push("");
+    }
   }
 
   return lines.join("\n");
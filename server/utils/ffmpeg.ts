@@ -19,6 +19,9 @@ export interface ConversionResult {
   conversionTimeMs: number;
 }
 
+// speech band cleanup, used when applyFilters is set
+const SPEECH_FILTERS = ["highpass=f=200", "lowpass=f=3000", "volume=1.5", "anlmdn=s=0.00001"];
+
 // convert webm to wav for gemini api
 export async function convertToWav(
   inputPath: string,
@@ -42,12 +45,7 @@ export async function convertToWav(
       .audioCodec("pcm_s16le")
       .format("wav");
     if (applyFilters) {
-      command = command.audioFilters([
-        "highpass=f=200",
-        "lowpass=f=3000",
-        "volume=1.5",
-        "anlmdn=s=0.00001",
-      ]);
+      command = command.audioFilters(SPEECH_FILTERS);
     }
 
     command
@@ -94,6 +92,221 @@ export async function convertToWav(
   });
 }
 
+/**
+ * Convert a chunk to WAV with the last seconds of the previous chunk in front of it
+ * Used by overlap mode so words cut at the chunk boundary are heard whole
+ *
+ * @param previousPath - Audio of the previous chunk, only its tail is used
+ * @param currentPath - Audio of the chunk being transcribed
+ * @param overlapSeconds - How much of the previous chunk to prepend
+ * @returns Conversion result, durationSeconds covers the overlap and the chunk
+ */
+export async function convertWithOverlapToWav(
+  previousPath: string,
+  currentPath: string,
+  outputPath: string,
+  overlapSeconds: number,
+  options: Omit<ConversionOptions, "deleteSource"> = {}
+): Promise<ConversionResult> {
+  const startTime = Date.now();
+  const { sampleRate = 16000, channels = 1, applyFilters = false } = options;
+
+  for (const inputPath of [previousPath, currentPath]) {
+    if (!fs.existsSync(inputPath)) {
+      throw new Error(`Input file not found: ${inputPath}`);
+    }
+  }
+
+  // both inputs are resampled first, concat needs matching formats
+  const layout = channels === 1 ? "mono" : "stereo";
+  const format = `aformat=sample_rates=${sampleRate}:channel_layouts=${layout}`;
+  const filters = [
+    `[0:a]${format}[tail]`,
+    `[1:a]${format}[chunk]`,
+    `[tail][chunk]concat=n=2:v=0:a=1${applyFilters ? `,${SPEECH_FILTERS.join(",")}` : ""}[out]`,
+  ];
+
+  return new Promise((resolve, reject) => {
+    ffmpeg()
+      .input(previousPath)
+      .inputOptions(["-sseof", `-${overlapSeconds}`])
+      .input(currentPath)
+      .complexFilter(filters, "out")
+      .audioCodec("pcm_s16le")
+      .format("wav")
+      .on("start", (commandLine) => {
+        console.log(`[FFmpeg] starting overlap conversion: ${commandLine}`);
+      })
+      .on("end", async () => {
+        try {
+          const stats = fs.statSync(outputPath);
+          const duration = await getAudioDuration(outputPath);
+          const conversionTimeMs = Date.now() - startTime;
+
+          console.log(
+            `[FFmpeg] overlap conversion completed in ${conversionTimeMs}ms: ${currentPath} → ${outputPath}`
+          );
+
+          resolve({
+            outputPath,
+            durationSeconds: duration,
+            fileSizeBytes: stats.size,
+            conversionTimeMs,
+          });
+        } catch (error) {
+          reject(new Error(`Failed to read output file stats: ${error}`));
+        }
+      })
+      .on("error", (error) => {
+        console.error(`[FFmpeg] overlap conversion error: ${error.message}`);
+        reject(new Error(`FFmpeg overlap conversion failed: ${error.message}`));
+      })
+      .save(outputPath);
+  });
+}
+
+/**
+ * Join the timeslices of one MediaRecorder stream into a seekable Opus/WebM file
+ * Only the first slice carries the WebM header, the rest are bare clusters, so the
+ * slices are appended byte for byte into one input and re-encoded from there. The
+ * muxer then writes the cues players need to seek
+ *
+ * Cluster timestamps keep running across slices, a slice left out leaves a gap in
+ * them that aresample fills with silence, so later audio stays where the chunk
+ * durations put it
+ *
+ * @param fragmentPaths - Slices in recording order, the first one with the header
+ * @param outputPath - Where to write the joined file
+ * @returns Conversion result for the joined file
+ */
+export async function joinWebmFragments(
+  fragmentPaths: string[],
+  outputPath: string
+): Promise<ConversionResult> {
+  const startTime = Date.now();
+
+  if (fragmentPaths.length === 0) {
+    throw new Error("No input files to join");
+  }
+
+  const joinedPath = `${outputPath}.src.webm`;
+  await fs.promises.writeFile(joinedPath, "");
+  for (const fragmentPath of fragmentPaths) {
+    await fs.promises.appendFile(joinedPath, await fs.promises.readFile(fragmentPath));
+  }
+
+  try {
+    return await new Promise<ConversionResult>((resolve, reject) => {
+      ffmpeg(joinedPath)
+        .audioFilters("aresample=async=1")
+        .audioCodec("libopus")
+        .audioBitrate("64k")
+        .noVideo()
+        .format("webm")
+        .on("start", (commandLine) => {
+          console.log(`[FFmpeg] joining ${fragmentPaths.length} fragments: ${commandLine}`);
+        })
+        .on("end", async () => {
+          try {
+            const stats = fs.statSync(outputPath);
+            const duration = await getAudioDuration(outputPath);
+            const conversionTimeMs = Date.now() - startTime;
+
+            console.log(`[FFmpeg] join completed in ${conversionTimeMs}ms: ${outputPath}`);
+
+            resolve({
+              outputPath,
+              durationSeconds: duration,
+              fileSizeBytes: stats.size,
+              conversionTimeMs,
+            });
+          } catch (error) {
+            reject(new Error(`Failed to read output file stats: ${error}`));
+          }
+        })
+        .on("error", (error) => {
+          console.error(`[FFmpeg] join error: ${error.message}`);
+          reject(new Error(`FFmpeg join failed: ${error.message}`));
+        })
+        .save(outputPath);
+    });
+  } finally {
+    await unlinkAsync(joinedPath).catch(() => {});
+  }
+}
+
+/**
+ * Min/max peaks of an audio file for drawing a waveform
+ * The audio is decoded to low-rate mono 16-bit PCM and folded into buckets
+ * as it streams, so a long recording is never held in memory
+ *
+ * @param inputPath - Audio file to analyse
+ * @param options.samplesPerBucket - Decoded samples folded into one min/max pair
+ * @param options.sampleRate - Decode rate, peaks don't need more than a few kHz
+ * @returns Interleaved [min, max, min, max, ...] in the -1..1 range and the decoded length
+ */
+export async function computeAudioPeaks(
+  inputPath: string,
+  options: { samplesPerBucket: number; sampleRate?: number }
+): Promise<{ peaks: number[]; durationSeconds: number }> {
+  const { samplesPerBucket, sampleRate = 8000 } = options;
+
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const peaks: number[] = [];
+    let min = 0;
+    let max = 0;
+    let count = 0;
+    let total = 0;
+    // a sample can be split across two stdout chunks
+    let carry: Buffer | null = null;
+
+    const flushBucket = () => {
+      peaks.push(min / 32768, max / 32768);
+      min = 0;
+      max = 0;
+      count = 0;
+    };
+
+    const stream = ffmpeg(inputPath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(sampleRate)
+      .audioCodec("pcm_s16le")
+      .format("s16le")
+      .on("start", (commandLine) => {
+        console.log(`[FFmpeg] computing peaks: ${commandLine}`);
+      })
+      .on("error", (error) => {
+        console.error(`[FFmpeg] peaks error: ${error.message}`);
+        reject(new Error(`FFmpeg peaks failed: ${error.message}`));
+      })
+      .pipe();
+
+    stream.on("data", (chunk: Buffer) => {
+      const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      carry = usable < data.length ? data.subarray(usable) : null;
+
+      for (let offset = 0; offset < usable; offset += 2) {
+        const sample = data.readInt16LE(offset);
+        if (sample < min) min = sample;
+        if (sample > max) max = sample;
+        total++;
+        if (++count === samplesPerBucket) flushBucket();
+      }
+    });
+
+    stream.on("end", () => {
+      if (count > 0) flushBucket();
+      resolve({ peaks, durationSeconds: total / sampleRate });
+    });
+  });
+}
+
 /**
  * Get audio duration using ffprobe
  * @param filePath - Path to audio file
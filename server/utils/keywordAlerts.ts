@@ -0,0 +1,264 @@
+import { Worker } from "worker_threads";
+import { prisma as db } from "@/lib/db";
+import { ALERT_RULE_TYPES } from "../schemas/transcript.schema";
+import { isSafeAlertRegex } from "./alertRegex";
+import { getSpeakerNameMap } from "./speakers";
+
+type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+// a chatty chunk shouldn't flood the timeline
+const MAX_ALERTS_PER_CHUNK = 20;
+
+// characters of transcript kept on each side of a match
+const CONTEXT_CHARS = 60;
+
+// matching runs in a worker thread that is terminated after this long, so a rule
+// that backtracks badly costs one chunk's alerts instead of stalling the server
+const MATCH_BUDGET_MS = 2000;
+
+// evaluated as-is in the worker, so plain CommonJS
+const MATCH_WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { patterns, texts, limit } = workerData;
+
+parentPort.postMessage(
+  patterns.map(({ source, flags }) => {
+    const regex = new RegExp(source, flags);
+    return texts.map((text) => {
+      const found = [];
+      for (const match of text.matchAll(regex)) {
+        if (match[0].length === 0) continue;
+        found.push([match.index, match[0]]);
+        if (found.length >= limit) break;
+      }
+      return found;
+    });
+  })
+);
+`;
+
+// [pattern][segment] => [index, matched text] of every match
+type PatternMatches = Array<Array<Array<[number, string]>>>;
+
+export interface KeywordAlert {
+  ruleId: string;
+  ruleName: string;
+  match: string;
+  seq: number;
+  offsetMs: number;
+  speaker: string | null;
+  context: string;
+}
+
+interface CompiledRule {
+  id: string;
+  name: string;
+  speaker: string | null;
+  regexes: RegExp[];
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the regex for one pattern of a rule
+ * Keywords and phrases only match whole words, so "cancel" doesn't fire on "cancellation"
+ */
+function compileAlertPattern(type: AlertRuleType, pattern: string): RegExp | null {
+  try {
+    // rules stored before the check existed are skipped rather than risk a stall
+    if (type === "regex") return isSafeAlertRegex(pattern) ? new RegExp(pattern, "gi") : null;
+
+    const words = pattern.trim().split(/\s+/).map(escapeRegex).join("\\s+");
+    return new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, "giu");
+  } catch {
+    return null;
+  }
+}
+
+function compileRule(rule: {
+  id: string;
+  name: string;
+  type: string;
+  patterns: unknown;
+  speaker: string | null;
+}): CompiledRule | null {
+  if (!(ALERT_RULE_TYPES as readonly string[]).includes(rule.type)) return null;
+  if (!Array.isArray(rule.patterns)) return null;
+
+  const regexes = rule.patterns
+    .filter((p): p is string => typeof p === "string" && p.trim().length > 0)
+    .map((p) => compileAlertPattern(rule.type as AlertRuleType, p))
+    .filter((r): r is RegExp => r !== null);
+
+  if (regexes.length === 0) return null;
+
+  return { id: rule.id, name: rule.name, speaker: rule.speaker, regexes };
+}
+
+/**
+ * Run every pattern over every text in a worker thread
+ *
+ * @returns The matches, null when the worker ran over MATCH_BUDGET_MS or failed
+ */
+function matchInWorker(regexes: RegExp[], texts: string[]): Promise<PatternMatches | null> {
+  return new Promise((resolve) => {
+    const worker = new Worker(MATCH_WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        patterns: regexes.map((regex) => ({ source: regex.source, flags: regex.flags })),
+        texts,
+        limit: MAX_ALERTS_PER_CHUNK,
+      },
+    });
+
+    const timer = setTimeout(() => {
+      worker.terminate().catch(() => {});
+      resolve(null);
+    }, MATCH_BUDGET_MS);
+
+    worker.once("message", (matches: PatternMatches) => {
+      clearTimeout(timer);
+      worker.terminate().catch(() => {});
+      resolve(matches);
+    });
+
+    worker.once("error", (error) => {
+      clearTimeout(timer);
+      console.warn("[Alerts] match worker failed:", error);
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * Turn the raw matches of every rule into alerts
+ * Offsets are interpolated from where the match sits in its segment's text
+ *
+ * @param matches - From matchInWorker, patterns in rule order
+ */
+function findAlertMatches(
+  rules: CompiledRule[],
+  seq: number,
+  segments: { startMs: number; endMs: number; text: string; speaker: string | null }[],
+  matches: PatternMatches,
+  speakerName: (label: string | null) => string | null = (label) => label
+): KeywordAlert[] {
+  const alerts: KeywordAlert[] = [];
+
+  // index of each rule's first pattern in `matches`
+  const firstPattern: number[] = [];
+  let patternCount = 0;
+  for (const rule of rules) {
+    firstPattern.push(patternCount);
+    patternCount += rule.regexes.length;
+  }
+
+  for (const [segmentIndex, segment] of segments.entries()) {
+    const speaker = speakerName(segment.speaker);
+
+    for (const [ruleIndex, rule] of rules.entries()) {
+      if (rule.speaker) {
+        const wanted = rule.speaker.toLowerCase();
+        const labels = [segment.speaker, speaker].filter(Boolean).map((s) => s!.toLowerCase());
+        if (!labels.includes(wanted)) continue;
+      }
+
+      for (let r = 0; r < rule.regexes.length; r++) {
+        for (const [position, text] of matches[firstPattern[ruleIndex] + r][segmentIndex]) {
+          const share = segment.text.length > 0 ? position / segment.text.length : 0;
+
+          alerts.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            match: text,
+            seq,
+            offsetMs: Math.round(segment.startMs + share * (segment.endMs - segment.startMs)),
+            speaker,
+            context: segment.text
+              .slice(Math.max(0, position - CONTEXT_CHARS), position + text.length + CONTEXT_CHARS)
+              .trim(),
+          });
+
+          if (alerts.length >= MAX_ALERTS_PER_CHUNK) return alerts;
+        }
+      }
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Check a freshly transcribed chunk against the session owner's alert rules
+ * Every match is stored as a "keyword-alert" RecordingEvent for the session timeline
+ *
+ * @returns The matches in transcript order, at most MAX_ALERTS_PER_CHUNK
+ */
+export async function evaluateAlertRules(
+  sessionId: string,
+  chunkId: string
+): Promise<KeywordAlert[]> {
+  const chunk = await db.transcriptChunk.findUnique({
+    where: { id: chunkId },
+    select: { seq: true, session: { select: { userId: true } } },
+  });
+  if (!chunk) return [];
+
+  const rules = await db.alertRule.findMany({
+    where: { userId: chunk.session.userId, enabled: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const compiled = rules.map(compileRule).filter((r): r is CompiledRule => r !== null);
+  if (compiled.length === 0) return [];
+
+  const [segments, speakerNames] = await Promise.all([
+    db.transcriptSegment.findMany({
+      where: { chunkId },
+      orderBy: { index: "asc" },
+      select: { startMs: true, endMs: true, text: true, speaker: true },
+    }),
+    getSpeakerNameMap(sessionId),
+  ]);
+
+  if (segments.length === 0) return [];
+
+  const matches = await matchInWorker(
+    compiled.flatMap((rule) => rule.regexes),
+    segments.map((segment) => segment.text)
+  );
+
+  if (!matches) {
+    console.warn(
+      `[Alerts] no alerts for chunk ${chunk.seq} of ${sessionId}, matching failed or ran over ${MATCH_BUDGET_MS}ms`
+    );
+    return [];
+  }
+
+  const alerts = findAlertMatches(
+    compiled,
+    chunk.seq,
+    segments,
+    matches,
+    (label) => (label && speakerNames.get(label)) || label
+  );
+
+  if (alerts.length > 0) {
+    await db.recordingEvent.createMany({
+      data: alerts.map((alert) => ({
+        sessionId,
+        type: "keyword-alert",
+        actorId: null,
+        metadata: { ...alert },
+      })),
+    });
+
+    console.log(
+      `[Alerts] ${alerts.length} match(es) in chunk ${chunk.seq} of session ${sessionId}`
+    );
+  }
+
+  return alerts;
+}
@@ -66,7 +66,7 @@ export const chunkLogger = {
     sequence: number;
     userId: string;
     size: number;
-    durationMs: number;
+    timestamp: number;
     mimeType?: string;
   }) => {
     logger.info("Chunk received", {
@@ -75,7 +75,7 @@ export const chunkLogger = {
       sequence: data.sequence,
       userId: data.userId,
       size: data.size,
-      durationMs: data.durationMs,
+      timestamp: data.timestamp,
       mimeType: data.mimeType,
       sizeKB: (data.size / 1024).toFixed(2),
     });
@@ -87,6 +87,8 @@ export const chunkLogger = {
     chunkId: string;
     processingTimeMs: number;
     audioPath: string;
+    durationMs: number;
+    startOffsetMs: number;
 }) => {
     logger.info("Chunk processed", {
       event: "chunk_processed",
@@ -95,6 +97,8 @@ export const chunkLogger = {
       chunkId: data.chunkId,
       processingTimeMs: data.processingTimeMs,
       audioPath: data.audioPath,
+      durationMs: data.durationMs,
+      startOffsetMs: data.startOffsetMs,
     });
   },
 
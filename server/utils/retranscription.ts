@@ -0,0 +1,117 @@
+import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import { finalizeQueue, transcriptionQueue } from "../queues/postgres-queue";
+import type { RetranscribeOverrides } from "../schemas/transcript.schema";
+
+/**
+ * Queue chunks for re-transcription, then a finalization that rebuilds the
+ * aggregated transcript and summary once every one of them has finished
+ *
+ * @returns Job ids of the queued chunk transcriptions
+ */
+export async function queueRetranscription(
+  sessionId: string,
+  sequences: number[],
+  overrides: RetranscribeOverrides
+): Promise<string[]> {
+  const jobIds: string[] = [];
+  for (const sequence of sequences) {
+    jobIds.push(await transcriptionQueue.add({ sessionId, sequence, retranscribe: overrides }));
+  }
+
+  // finalization defers itself while transcription jobs for the session are active
+  await finalizeQueue.add({ sessionId });
+
+  await db.recordingSession.update({
+    where: { id: sessionId },
+    data: { status: "processing" },
+  });
+
+  console.log(
+    `[Retranscribe] session ${sessionId}: queued ${sequences.length} chunks (${JSON.stringify(overrides)})`
+  );
+
+  return jobIds;
+}
+
+/**
+ * Offline (local engine) sessions never leave the server, an engine override can't change that
+ *
+ * @returns Why the overrides are refused, null when they can be used
+ */
+export async function checkEngineOverride(
+  session: { engine: string | null; userId: string },
+  overrides: RetranscribeOverrides
+): Promise<string | null> {
+  if (!overrides.engine || overrides.engine === "local") return null;
+
+  const engine = await resolveSessionEngine(session);
+  if (engine.name !== "local") return null;
+
+  return `Session uses the local engine, it can't be re-transcribed with ${overrides.engine}`;
+}
+
+/**
+ * Save the chunk's current transcription as a version before it gets replaced
+ *
+ * @returns The version number, or null when the chunk had nothing to keep
+ */
+export async function saveChunkTranscriptVersion(
+  chunkId: string,
+  overrides: RetranscribeOverrides
+): Promise<number | null> {
+  const chunk = await db.transcriptChunk.findUnique({
+    where: { id: chunkId },
+    include: {
+      segments: {
+        orderBy: { index: "asc" },
+        select: { startMs: true, endMs: true, text: true, speaker: true, confidence: true },
+      },
+    },
+  });
+
+  if (!chunk || (!chunk.text && chunk.segments.length === 0)) return null;
+
+  return db.$transaction(async (tx) => {
+    const latest = await tx.chunkTranscriptVersion.findFirst({
+      where: { chunkId },
+      orderBy: { version: "desc" },
+      select: { version: true, text: true, engine: true, model: true },
+    });
+
+    // a retried attempt finds the same transcript it already saved
+    if (
+      latest &&
+      latest.text === chunk.text &&
+      latest.engine === chunk.engine &&
+      latest.model === chunk.model
+    ) {
+      return latest.version;
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+
+    await tx.chunkTranscriptVersion.create({
+      data: {
+        chunkId,
+        version,
+        text: chunk.text,
+        speaker: chunk.speaker,
+        confidence: chunk.confidence,
+        engine: chunk.engine,
+        model: chunk.model,
+        segments: chunk.segments,
+        overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+      },
+    });
+
+    return version;
+  });
+}
+
+export async function listChunkTranscriptVersions(chunkId: string) {
+  return db.chunkTranscriptVersion.findMany({
+    where: { chunkId },
+    orderBy: { version: "desc" },
+  });
+}
@@ -0,0 +1,153 @@
+import { prisma as db } from "@/lib/db";
+
+// ts_headline wraps matches in <mark>; clients split on it instead of injecting html
+const HEADLINE_OPTIONS =
+  "StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=1";
+const MAX_HITS_PER_SESSION = 5;
+
+export interface SearchHit {
+  seq: number;
+  offsetMs: number;
+  snippet: string;
+  rank: number;
+}
+
+export interface SessionSearchResult {
+  id: string;
+  title: string;
+  titleHighlight: string;
+  status: string;
+  startedAt: string;
+  rank: number;
+  snippet: string | null;
+  hits: SearchHit[];
+}
+
+interface SessionRow {
+  id: string;
+  title: string | null;
+  titleHighlight: string;
+  status: string;
+  startedAt: Date;
+  rank: number;
+  snippet: string | null;
+}
+
+interface ChunkRow {
+  sessionId: string;
+  seq: number;
+  offsetMs: bigint | number;
+  snippet: string;
+  rank: number;
+}
+
+/**
+ * Full-text search over a user's sessions (title, summary, transcript) and chunk text
+ * Uses the generated searchVector columns and their GIN indexes
+ *
+ * @param userId - Owner of the sessions
+ * @param query - Free text, parsed with websearch_to_tsquery ("quoted phrases", -exclude, or)
+ * @returns Sessions ranked by relevance, each with its best chunk hits in time order,
+ * along with the page and limit that were applied after clamping
+ */
+export async function searchSessions(
+  userId: string,
+  query: string,
+  options: { page?: number; limit?: number } = {}
+): Promise<{ results: SessionSearchResult[]; total: number; page: number; limit: number }> {
+  const page = Math.max(1, options.page || 1);
+  const limit = Math.min(50, Math.max(1, options.limit || 10));
+
+  // the best few hits of every session, a global cap would drop whole sessions
+  const chunkRows = await db.$queryRaw<ChunkRow[]>`
+    WITH hits AS (
+      SELECT
+        c."sessionId",
+        c."seq",
+        c."startOffsetMs",
+        c."text",
+        q.query AS "tsQuery",
+        ts_rank(c."searchVector", q.query) AS "rank",
+        ROW_NUMBER() OVER (
+          PARTITION BY c."sessionId" ORDER BY ts_rank(c."searchVector", q.query) DESC
+        ) AS "hitNumber"
+      FROM "TranscriptChunk" c
+      JOIN "RecordingSession" s ON s."id" = c."sessionId"
+      CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+      WHERE s."userId" = ${userId}
+        AND c."searchVector" @@ q.query
+    )
+    SELECT
+      h."sessionId",
+      h."seq",
+      COALESCE(h."startOffsetMs", (
+        SELECT COALESCE(SUM(p."durationMs"), 0)
+        FROM "TranscriptChunk" p
+        WHERE p."sessionId" = h."sessionId" AND p."seq" < h."seq"
+      )) AS "offsetMs",
+      ts_headline('english', h."text", h."tsQuery", ${HEADLINE_OPTIONS}) AS "snippet",
+      h."rank"
+    FROM hits h
+    WHERE h."hitNumber" <= ${MAX_HITS_PER_SESSION}
+  `;
+
+  const chunkSessionIds = Array.from(new Set(chunkRows.map((row) => row.sessionId)));
+
+  const sessionRows = await db.$queryRaw<SessionRow[]>`
+    SELECT
+      s."id",
+      s."title",
+      ts_headline('english', coalesce(s."title", ''), q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS "titleHighlight",
+      s."status",
+      s."startedAt",
+      ts_rank(s."searchVector", q.query) AS "rank",
+      CASE
+        WHEN to_tsvector('english', coalesce(s."summaryJSON"->>'executiveSummary', '')) @@ q.query
+          THEN ts_headline('english', s."summaryJSON"->>'executiveSummary', q.query, ${HEADLINE_OPTIONS})
+        WHEN s."transcript" IS NOT NULL
+          THEN ts_headline('english', s."transcript", q.query, ${HEADLINE_OPTIONS})
+        ELSE NULL
+      END AS "snippet"
+    FROM "RecordingSession" s
+    CROSS JOIN websearch_to_tsquery('english', ${query}) AS q(query)
+    WHERE s."userId" = ${userId}
+      AND (s."searchVector" @@ q.query OR s."id" = ANY(${chunkSessionIds}))
+  `;
+
+  const hitsBySession = new Map<string, SearchHit[]>();
+  for (const row of chunkRows) {
+    const hits = hitsBySession.get(row.sessionId) || [];
+    hits.push({
+      seq: row.seq,
+      offsetMs: Number(row.offsetMs),
+      snippet: row.snippet,
+      rank: row.rank,
+    });
+    hitsBySession.set(row.sessionId, hits);
+  }
+
+  const ranked = sessionRows
+    .map((row) => {
+      // the strongest hits of the session, shown in playback order
+      const hits = (hitsBySession.get(row.id) || []).sort((a, b) => a.seq - b.seq);
+
+      return {
+        id: row.id,
+        title: row.title || "Untitled Recording",
+        titleHighlight: row.titleHighlight || row.title || "Untitled Recording",
+        status: row.status,
+        startedAt: row.startedAt.toISOString(),
+        rank: row.rank + hits.reduce((sum, hit) => sum + hit.rank, 0),
+        snippet: row.snippet,
+        hits,
+      };
+    })
+    .sort((a, b) => b.rank - a.rank);
+
+  return {
+    results: ranked.slice((page - 1) * limit, page * limit),
+    total: ranked.length,
+    page,
+    limit,
+  };
+}
@@ -0,0 +1,119 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { prisma as db } from "@/lib/db";
+import { joinWebmFragments } from "./ffmpeg";
+
+// stitches in progress, a finalize job and a first playback may ask at the same time
+const inFlight = new Map<string, Promise<string | null>>();
+
+export interface StitchedAudio {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+function stitchedPathFor(sessionId: string, chunkPath: string): string {
+  return path.join(path.dirname(chunkPath), `${sessionId}_full.webm`);
+}
+
+async function statOrNull(filePath: string) {
+  return fs.stat(filePath).catch(() => null);
+}
+
+/**
+ * Join the chunks of a session into one seekable file next to them
+ * Chunks are MediaRecorder timeslices, only the first one carries the WebM header.
+ * A missing later chunk becomes silence of the same length, so the playback
+ * timeline still lines up. The stitched file is written to a temp name and renamed
+ * so a reader never sees a half-written file
+ *
+ * @returns Path of the stitched file, null when the first chunk or all audio is gone
+ */
+export async function stitchSessionAudio(sessionId: string): Promise<string | null> {
+  const running = inFlight.get(sessionId);
+  if (running) return running;
+
+  const stitch = (async () => {
+    const chunks = await db.transcriptChunk.findMany({
+      where: { sessionId },
+      orderBy: { seq: "asc" },
+      select: { seq: true, audioPath: true },
+    });
+
+    const present: string[] = [];
+    const missing: number[] = [];
+    for (const chunk of chunks) {
+      if (await statOrNull(chunk.audioPath)) present.push(chunk.audioPath);
+      else missing.push(chunk.seq);
+    }
+
+    // without the header chunk the rest can't be decoded
+    if (present.length === 0 || missing[0] === chunks[0].seq) {
+      console.warn(`[SessionAudio] ${sessionId}: first chunk missing, can't stitch`);
+      return null;
+    }
+    if (missing.length > 0) {
+      console.warn(
+        `[SessionAudio] ${sessionId}: chunks ${missing.join(",")} missing, padded with silence`
+      );
+    }
+
+    const outputPath = stitchedPathFor(sessionId, present[0]);
+    // unique per call, Next route bundles have their own inFlight map
+    const tempPath = `${outputPath}.${randomUUID()}.tmp.webm`;
+
+    try {
+      await joinWebmFragments(present, tempPath);
+      await fs.rename(tempPath, outputPath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {});
+      throw error;
+    }
+
+    console.log(`[SessionAudio] stitched ${present.length} chunks for ${sessionId}`);
+    return outputPath;
+  })();
+
+  inFlight.set(sessionId, stitch);
+  try {
+    return await stitch;
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
+
+/**
+ * The stitched audio of a session, stitched first when missing or older than a chunk
+ * Completed sessions still accept late chunks, those make the cached file stale
+ *
+ * @returns The file to stream, null when the session has no chunk audio
+ */
+export async function getStitchedAudio(sessionId: string): Promise<StitchedAudio | null> {
+  const [firstChunk, latestChunk] = await Promise.all([
+    db.transcriptChunk.findFirst({
+      where: { sessionId },
+      orderBy: { seq: "asc" },
+      select: { audioPath: true },
+    }),
+    db.transcriptChunk.findFirst({
+      where: { sessionId },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  if (!firstChunk || !latestChunk) return null;
+
+  let stitchedPath: string | null = stitchedPathFor(sessionId, firstChunk.audioPath);
+  let stats = await statOrNull(stitchedPath);
+
+  if (!stats || stats.mtime < latestChunk.createdAt) {
+    stitchedPath = await stitchSessionAudio(sessionId);
+    stats = stitchedPath ? await statOrNull(stitchedPath) : null;
+  }
+
+  if (!stitchedPath || !stats) return null;
+
+  return { path: stitchedPath, size: stats.size, modifiedAt: stats.mtime };
+}
@@ -0,0 +1,100 @@
+import { prisma as db } from "@/lib/db";
+import type { SpeakerInfo } from "../schemas/transcript.schema";
+
+interface SpeakerRow {
+  label: string;
+  name: string | null;
+  mergedInto: string | null;
+}
+
+/**
+ * Follow merges from a label to the label it finally points at
+ * Stops on unknown labels and on cycles
+ */
+export function resolveSpeakerLabel(rows: SpeakerRow[], label: string): string {
+  const byLabel = new Map(rows.map((row) => [row.label, row]));
+  const visited = new Set<string>();
+
+  let current = label;
+  while (!visited.has(current)) {
+    visited.add(current);
+    const next = byLabel.get(current)?.mergedInto;
+    if (!next) break;
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Map every known label to the name it should be shown as
+ */
+export function buildSpeakerNameMap(rows: SpeakerRow[]): Map<string, string> {
+  const byLabel = new Map(rows.map((row) => [row.label, row]));
+  const names = new Map<string, string>();
+
+  for (const row of rows) {
+    const target = resolveSpeakerLabel(rows, row.label);
+    names.set(row.label, byLabel.get(target)?.name || target);
+  }
+
+  return names;
+}
+
+export async function getSpeakerNameMap(sessionId: string): Promise<Map<string, string>> {
+  const rows = await db.speaker.findMany({
+    where: { sessionId },
+    select: { label: true, name: true, mergedInto: true },
+  });
+
+  return buildSpeakerNameMap(rows);
+}
+
+/**
+ * Make sure every label produced by transcription has a Speaker row
+ */
+export async function registerSpeakers(sessionId: string, labels: string[]): Promise<void> {
+  const unique = Array.from(new Set(labels.filter(Boolean)));
+  if (unique.length === 0) return;
+
+  await db.speaker.createMany({
+    data: unique.map((label) => ({ sessionId, label })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Speaker roster with segment counts and talk time
+ *
+ * @param sessionId - Recording session ID
+ * @returns One entry per label, merged labels report where they point
+ */
+export async function getSessionSpeakers(sessionId: string): Promise<SpeakerInfo[]> {
+  const [rows, stats] = await Promise.all([
+    db.speaker.findMany({
+      where: { sessionId },
+      orderBy: { label: "asc" },
+    }),
+    db.transcriptSegment.groupBy({
+      by: ["speaker"],
+      where: { sessionId, speaker: { not: null } },
+      _count: { _all: true },
+      _sum: { startMs: true, endMs: true },
+    }),
+  ]);
+
+  const statsByLabel = new Map(stats.map((s) => [s.speaker, s]));
+
+  return rows.map((row) => {
+    const stat = statsByLabel.get(row.label);
+
+    return {
+      id: row.id,
+      label: row.label,
+      segmentCount: stat?._count._all || 0,
+      totalDurationMs: stat ? (stat._sum.endMs || 0) - (stat._sum.startMs || 0) : 0,
+      customName: row.name || undefined,
+      mergedInto: row.mergedInto || undefined,
+    };
+  });
+}
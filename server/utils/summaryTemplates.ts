@@ -0,0 +1,240 @@
+import { z } from "zod";
+import { prisma as db } from "@/lib/db";
+import {
+  SummaryJSONSchema,
+  SummaryTemplateField,
+  SummaryTemplateFieldSchema,
+} from "../schemas/transcript.schema";
+
+export const DEFAULT_SUMMARY_TEMPLATE_ID = "general";
+
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  // extra instructions added to the final summary prompt
+  prompt: string;
+  fields: SummaryTemplateField[];
+  version: number;
+  builtIn: boolean;
+}
+
+// bump a built-in's version whenever its prompt or fields change
+export const BUILTIN_SUMMARY_TEMPLATES: SummaryTemplate[] = [
+  {
+    id: "general",
+    name: "General meeting",
+    description: "Narrative summary, key points, action items and decisions",
+    prompt: "",
+    fields: [],
+    version: 1,
+    builtIn: true,
+  },
+  {
+    id: "standup",
+    name: "Daily standup",
+    description: "What each person did, is doing next, and what blocks them",
+    prompt:
+      "This is a daily standup. Keep the executiveSummary to one short paragraph and attribute every update to the person who gave it.",
+    fields: [
+      {
+        key: "yesterday",
+        label: "Yesterday",
+        description: 'What each person finished, as "Name: update"',
+        type: "list",
+      },
+      {
+        key: "today",
+        label: "Today",
+        description: 'What each person plans to work on, as "Name: plan"',
+        type: "list",
+      },
+      {
+        key: "blockers",
+        label: "Blockers",
+        description: 'Anything blocking someone, as "Name: blocker"',
+        type: "list",
+      },
+    ],
+    version: 1,
+    builtIn: true,
+  },
+  {
+    id: "sales-discovery",
+    name: "Sales discovery call",
+    description: "BANT qualification: budget, authority, need and timeline",
+    prompt:
+      "This is a sales discovery call. Focus on how well the prospect is qualified and what the seller should do next. Write 'Not discussed' for BANT fields the call didn't cover.",
+    fields: [
+      { key: "budget", label: "Budget", description: "Budget range or constraints", type: "text" },
+      {
+        key: "authority",
+        label: "Authority",
+        description: "Who decides and who else is involved in buying",
+        type: "text",
+      },
+      { key: "need", label: "Need", description: "The problem they want solved", type: "text" },
+      {
+        key: "timeline",
+        label: "Timeline",
+        description: "When they want to decide or go live",
+        type: "text",
+      },
+      {
+        key: "objections",
+        label: "Objections",
+        description: "Concerns or objections raised",
+        type: "list",
+      },
+    ],
+    version: 1,
+    builtIn: true,
+  },
+  {
+    id: "interview",
+    name: "Interview",
+    description: "Candidate strengths, concerns and a recommendation",
+    prompt:
+      "This is a job interview. Assess the candidate from what they said, quote concrete examples and stay neutral in tone.",
+    fields: [
+      { key: "role", label: "Role", description: "The position discussed", type: "text" },
+      { key: "strengths", label: "Strengths", type: "list" },
+      { key: "concerns", label: "Concerns", type: "list" },
+      {
+        key: "recommendation",
+        label: "Recommendation",
+        description: "Advance, hold or reject, with one sentence of reasoning",
+        type: "text",
+      },
+    ],
+    version: 1,
+    builtIn: true,
+  },
+  {
+    id: "one-on-one",
+    name: "1:1",
+    description: "Wins, concerns, feedback and follow-ups from a one-on-one",
+    prompt:
+      "This is a one-on-one between a manager and a report. Keep personal details out of the summary unless they affect work.",
+    fields: [
+      { key: "wins", label: "Wins", type: "list" },
+      { key: "concerns", label: "Concerns", type: "list" },
+      {
+        key: "feedback",
+        label: "Feedback",
+        description: "Feedback given in either direction",
+        type: "list",
+      },
+      { key: "followUps", label: "Follow-ups", type: "list" },
+    ],
+    version: 1,
+    builtIn: true,
+  },
+];
+
+const builtInById = new Map(BUILTIN_SUMMARY_TEMPLATES.map((template) => [template.id, template]));
+
+export function isBuiltInSummaryTemplate(templateId: string): boolean {
+  return builtInById.has(templateId);
+}
+
+/**
+ * Look up a built-in template or one of the user's own
+ *
+ * @returns The template, or null when it doesn't exist or belongs to someone else
+ */
+export async function findSummaryTemplate(
+  templateId: string,
+  userId: string
+): Promise<SummaryTemplate | null> {
+  const builtIn = builtInById.get(templateId);
+  if (builtIn) return builtIn;
+
+  const row = await db.summaryTemplate.findFirst({ where: { id: templateId, userId } });
+  return row ? fromRow(row) : null;
+}
+
+/**
+ * Template to summarize a session with, falling back to the general one when the
+ * chosen template is unset or was deleted since the session started
+ */
+export async function resolveSummaryTemplate(
+  templateId: string | null | undefined,
+  userId: string
+): Promise<SummaryTemplate> {
+  if (templateId) {
+    const template = await findSummaryTemplate(templateId, userId);
+    if (template) return template;
+
+    console.log(`[Summary] template ${templateId} not found, using ${DEFAULT_SUMMARY_TEMPLATE_ID}`);
+  }
+
+  return builtInById.get(DEFAULT_SUMMARY_TEMPLATE_ID)!;
+}
+
+export async function listSummaryTemplates(userId: string): Promise<SummaryTemplate[]> {
+  const rows = await db.summaryTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return [...BUILTIN_SUMMARY_TEMPLATES, ...rows.map(fromRow)];
+}
+
+/**
+ * SummaryJSONSchema with `fields` narrowed to the template's output schema
+ */
+export function buildSummarySchema(template: SummaryTemplate) {
+  if (template.fields.length === 0) return SummaryJSONSchema;
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of template.fields) {
+    shape[field.key] = field.type === "list" ? z.array(z.string()) : z.string();
+  }
+
+  return SummaryJSONSchema.extend({ fields: z.object(shape) });
+}
+
+/**
+ * Coerce a model's template output into the field types, filling in what's missing
+ */
+export function repairTemplateFields(
+  template: SummaryTemplate,
+  raw: unknown
+): Record<string, string | string[]> {
+  const values = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const fields: Record<string, string | string[]> = {};
+
+  for (const field of template.fields) {
+    const value = values[field.key];
+    const list = (Array.isArray(value) ? value : typeof value === "string" ? [value] : [])
+      .filter((entry): entry is string => typeof entry === "string" && entry.trim() !== "")
+      .map((entry) => entry.trim());
+
+    fields[field.key] = field.type === "list" ? list : list.join("; ");
+  }
+
+  return fields;
+}
+
+function fromRow(row: {
+  id: string;
+  name: string;
+  description: string | null;
+  prompt: string;
+  fields: unknown;
+  version: number;
+}): SummaryTemplate {
+  // rows are validated on write, this only guards against hand-edited json
+  const fields = z.array(SummaryTemplateFieldSchema).safeParse(row.fields);
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    prompt: row.prompt,
+    fields: fields.success ? fields.data : [],
+    version: row.version,
+    builtIn: false,
+  };
+}
@@ -0,0 +1,102 @@
+import { prisma as db } from "@/lib/db";
+import type { SummaryOptions } from "@/lib/transcriptionEngine";
+import type { SummaryJSON } from "../schemas/transcript.schema";
+
+export interface SummaryVersionInfo {
+  version: number;
+  templateId: string | null;
+  templateName: string | null;
+  options: SummaryOptions | null;
+  engine: string | null;
+  createdAt: Date;
+  active: boolean;
+}
+
+/**
+ * Store a newly generated summary as the session's next version and make it active
+ *
+ * @returns The version number assigned
+ */
+export async function saveSummaryVersion(
+  sessionId: string,
+  summary: SummaryJSON,
+  meta: { options?: SummaryOptions; engine?: string | null } = {}
+): Promise<number> {
+  return db.$transaction(async (tx) => {
+    const latest = await tx.summaryVersion.findFirst({
+      where: { sessionId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? 0) + 1;
+
+    await tx.summaryVersion.create({
+      data: {
+        sessionId,
+        version,
+        summaryJSON: summary as any,
+        templateId: summary.template?.id ?? null,
+        options:
+          meta.options && Object.keys(meta.options).length > 0 ? (meta.options as any) : undefined,
+        engine: meta.engine ?? null,
+      },
+    });
+
+    await tx.recordingSession.update({
+      where: { id: sessionId },
+      data: { summaryJSON: summary as any, activeSummaryVersion: version },
+    });
+
+    return version;
+  });
+}
+
+/**
+ * Switch the summary shown for a session to an earlier (or later) version
+ *
+ * @returns The activated summary, or null when the version doesn't exist
+ */
+export async function activateSummaryVersion(
+  sessionId: string,
+  version: number
+): Promise<SummaryJSON | null> {
+  const row = await db.summaryVersion.findUnique({
+    where: { sessionId_version: { sessionId, version } },
+  });
+
+  if (!row) return null;
+
+  await db.recordingSession.update({
+    where: { id: sessionId },
+    data: { summaryJSON: row.summaryJSON as any, activeSummaryVersion: version },
+  });
+
+  return row.summaryJSON as unknown as SummaryJSON;
+}
+
+export async function listSummaryVersions(sessionId: string): Promise<SummaryVersionInfo[]> {
+  const [session, rows] = await Promise.all([
+    db.recordingSession.findUnique({
+      where: { id: sessionId },
+      select: { activeSummaryVersion: true },
+    }),
+    db.summaryVersion.findMany({
+      where: { sessionId },
+      orderBy: { version: "desc" },
+    }),
+  ]);
+
+  return rows.map((row) => {
+    const summary = row.summaryJSON as Partial<SummaryJSON> | null;
+
+    return {
+      version: row.version,
+      templateId: row.templateId,
+      templateName: summary?.template?.name ?? null,
+      options: row.options as SummaryOptions | null,
+      engine: row.engine,
+      createdAt: row.createdAt,
+      active: row.version === session?.activeSummaryVersion,
+    };
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { alignOverlap, dedupeOverlap, dropLeadingWords, normalizeWord } from "./textAlignment";
+
+describe("normalizeWord", () => {
+  it("ignores case and punctuation but keeps apostrophes", () => {
+    expect(normalizeWord("Friday,")).toBe("friday");
+    expect(normalizeWord("don't.")).toBe("don't");
+    expect(normalizeWord("—")).toBe("");
+  });
+});
+
+describe("alignOverlap", () => {
+  it("finds the words repeated from the end of the previous text", () => {
+    const result = alignOverlap(
+      "so the plan is that we should ship it on Friday",
+      "ship it on Friday, then we write the docs"
+    );
+
+    expect(result.duplicateWords).toBe(4);
+    expect(result.score).toBe(4);
+  });
+
+  it("tolerates a word transcribed differently inside the overlap", () => {
+    const result = alignOverlap(
+      "the quarterly numbers look good for the team",
+      "numbers looked good for the team and the budget"
+    );
+
+    expect(result.duplicateWords).toBe(6);
+  });
+
+  it("keeps everything when the texts don't overlap", () => {
+    expect(alignOverlap("hello everyone and welcome", "let's start with the agenda")).toEqual({
+      duplicateWords: 0,
+      score: expect.any(Number),
+    });
+  });
+
+  it("ignores a single shared word", () => {
+    expect(alignOverlap("we talked about the", "the roadmap for next year").duplicateWords).toBe(0);
+  });
+
+  it("handles empty input", () => {
+    expect(alignOverlap("", "some words").duplicateWords).toBe(0);
+    expect(alignOverlap("some words", "").duplicateWords).toBe(0);
+  });
+
+  it("only looks at maxWords on each side", () => {
+    const previous = "alpha beta gamma delta";
+    const current = "gamma delta epsilon";
+
+    expect(alignOverlap(previous, current).duplicateWords).toBe(2);
+    expect(alignOverlap(previous, current, { maxWords: 1 }).duplicateWords).toBe(0);
+  });
+});
+
+describe("dropLeadingWords", () => {
+  it("drops words and normalizes whitespace", () => {
+    expect(dropLeadingWords("one  two three", 1)).toBe("two three");
+    expect(dropLeadingWords("one two", 0)).toBe("one two");
+    expect(dropLeadingWords("one two", 5)).toBe("");
+  });
+});
+
+describe("dedupeOverlap", () => {
+  it("returns the current text without the repeated words", () => {
+    expect(
+      dedupeOverlap("and that is why we moved the launch", "we moved the launch to March")
+    ).toEqual({ text: "to March", removedWords: 4 });
+  });
+});
@@ -0,0 +1,101 @@
+// word-level alignment for overlapping chunk windows, kept free of db/engine imports
+
+export interface OverlapAlignment {
+  /** Leading words of the current text that repeat the end of the previous text */
+  duplicateWords: number;
+  /** Alignment score, matches minus mismatches and gaps */
+  score: number;
+}
+
+export interface OverlapAlignmentOptions {
+  /** Words considered at the end of the previous text and the start of the current one */
+  maxWords?: number;
+  /** Lowest score accepted as a real overlap, anything below keeps every word */
+  minScore?: number;
+}
+
+const MATCH = 1;
+const MISMATCH = -1;
+const GAP = -1;
+
+export function tokenizeWords(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+// case and punctuation differ between two transcriptions of the same audio
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Find how many leading words of `current` repeat the end of `previous`
+ * Semi-global alignment: the start of the previous tail is free to skip and the
+ * rest of the current text is free to leave unaligned, but the previous tail has
+ * to be aligned up to its last word
+ *
+ * @example
+ * ```typescript
+ * alignOverlap("we should ship it on Friday", "ship it on Friday, then the docs");
+ * // { duplicateWords: 4, score: 4 }
+ * ```
+ */
+export function alignOverlap(
+  previous: string,
+  current: string,
+  options: OverlapAlignmentOptions = {}
+): OverlapAlignment {
+  const { maxWords = 60, minScore = 2 } = options;
+
+  const prev = tokenizeWords(previous).slice(-maxWords).map(normalizeWord);
+  const curr = tokenizeWords(current).slice(0, maxWords).map(normalizeWord);
+
+  if (prev.length === 0 || curr.length === 0) return { duplicateWords: 0, score: 0 };
+
+  // score[i][j]: best alignment of a suffix of prev[0..i) with curr[0..j)
+  const score: number[][] = [];
+  for (let i = 0; i <= prev.length; i++) {
+    score.push(new Array(curr.length + 1).fill(0));
+  }
+  for (let j = 1; j <= curr.length; j++) score[0][j] = j * GAP;
+
+  for (let i = 1; i <= prev.length; i++) {
+    for (let j = 1; j <= curr.length; j++) {
+      const same = prev[i - 1] !== "" && prev[i - 1] === curr[j - 1];
+      score[i][j] = Math.max(
+        score[i - 1][j - 1] + (same ? MATCH : MISMATCH),
+        score[i - 1][j] + GAP,
+        score[i][j - 1] + GAP
+      );
+    }
+  }
+
+  // first best column, on ties we'd rather keep a word than drop it
+  let best = 0;
+  for (let j = 1; j <= curr.length; j++) {
+    if (score[prev.length][j] > score[prev.length][best]) best = j;
+  }
+
+  const bestScore = score[prev.length][best];
+  if (bestScore < minScore) return { duplicateWords: 0, score: bestScore };
+
+  return { duplicateWords: best, score: bestScore };
+}
+
+export function dropLeadingWords(text: string, count: number): string {
+  if (count <= 0) return text;
+  return tokenizeWords(text).slice(count).join(" ");
+}
+
+/**
+ * Remove the words at the start of `current` that repeat the end of `previous`
+ *
+ * @returns The de-duplicated text and how many words were removed
+ */
+export function dedupeOverlap(
+  previous: string,
+  current: string,
+  options: OverlapAlignmentOptions = {}
+): { text: string; removedWords: number } {
+  const { duplicateWords } = alignOverlap(previous, current, options);
+  return { text: dropLeadingWords(current, duplicateWords), removedWords: duplicateWords };
+}
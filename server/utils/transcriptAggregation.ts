@@ -1,5 +1,7 @@
 import { prisma as db } from "@/lib/db";
-
+import type { TranscriptionResult } from "@/lib/transcriptionEngine";
+import { buildPlaybackTimeline, TimelineChunk } from "@/lib/playbackTimeline";
+import { getSpeakerNameMap, registerSpeakers } from "./speakers";
 
 export interface TranscriptSegment {
   seq: number;
@@ -20,8 +22,127 @@ export interface AggregatedTranscript {
   chunkCount: number;
 }
 
+/**
+ * Start of a chunk within the session timeline
+ * Uses the stored start offset (which includes pause gaps), chunks stored before
+ * offsets existed fall back to the sum of the durations of every earlier chunk
+ *
+ * @param sessionId - Recording session ID
+ * @param seq - Chunk sequence number
+ * @returns Offset in milliseconds
+ */
+export async function getChunkOffsetMs(sessionId: string, seq: number): Promise<number> {
+  const chunk = await db.transcriptChunk.findUnique({
+    where: { sessionId_seq: { sessionId, seq } },
+    select: { startOffsetMs: true },
+  });
+
+  if (chunk?.startOffsetMs != null) return chunk.startOffsetMs;
+
+  const result = await db.transcriptChunk.aggregate({
+    where: { sessionId, seq: { lt: seq } },
+    _sum: { durationMs: true },
+  });
+
+  return result._sum.durationMs || 0;
+}
+
+/**
+ * Every chunk of a session on the session timeline and in the stitched audio
+ * Used to seek the player to a segment across pause gaps, uploads have no chunks
+ *
+ * @param sessionId - Recording session ID
+ * @returns One entry per chunk in sequence order
+ */
+export async function getPlaybackTimeline(sessionId: string): Promise<TimelineChunk[]> {
+  const chunks = await db.transcriptChunk.findMany({
+    where: { sessionId },
+    orderBy: { seq: "asc" },
+    select: { seq: true, startOffsetMs: true, durationMs: true },
+  });
+
+  return buildPlaybackTimeline(chunks);
+}
+
+/**
+ * Replace the stored segments (and words) of a chunk with fresh engine output
+ * Engine offsets are file-relative, they are shifted by `offsetMs` so rows hold session time
+ * Engines without structured output get a single segment spanning the whole chunk
+ *
+ * @param params.chunkId - Chunk the segments belong to, null for whole-file uploads
+ * @param params.offsetMs - Start of the audio file within the session
+ * @param params.durationMs - Length of the audio file, used for the fallback segment
+ * @returns Number of segments stored
+ */
+export async function storeTranscriptSegments(params: {
+  sessionId: string;
+  chunkId: string | null;
+  seq: number;
+  offsetMs: number;
+  durationMs: number;
+  result: TranscriptionResult;
+}): Promise<number> {
+  const { sessionId, chunkId, seq, offsetMs, durationMs, result } = params;
+
+  const segments =
+    result.segments && result.segments.length > 0
+      ? result.segments
+      : [
+          {
+            startMs: 0,
+            endMs: durationMs,
+            text: result.text,
+            speaker: result.speakers?.[0],
+            confidence: result.confidence,
+            words: undefined,
+          },
+        ];
+
+  await db.$transaction([
+    db.transcriptSegment.deleteMany({
+      where: chunkId ? { chunkId } : { sessionId, chunkId: null },
+    }),
+    ...segments.map((segment, index) =>
+      db.transcriptSegment.create({
+        data: {
+          sessionId,
+          chunkId,
+          seq,
+          index,
+          startMs: offsetMs + segment.startMs,
+          endMs: offsetMs + Math.max(segment.endMs, segment.startMs),
+          text: segment.text,
+          speaker: segment.speaker ?? null,
+          confidence: segment.confidence ?? null,
+          words: segment.words?.length
+            ? {
+                create: segment.words.map((word, wordIndex) => ({
+                  index: wordIndex,
+                  startMs: offsetMs + word.startMs,
+                  endMs: offsetMs + Math.max(word.endMs, word.startMs),
+                  word: word.word,
+                  confidence: word.confidence ?? null,
+                })),
+              }
+            : undefined,
+        },
+      })
+    ),
+  ]);
+
+  await registerSpeakers(
+    sessionId,
+    segments.map((segment) => segment.speaker).filter((s): s is string => !!s)
+  );
+
+  return segments.length;
+}
+
 /**
  * Merge chunk transcripts preserving order and calculating timestamps
+ * Segments come from TranscriptSegment rows; chunks transcribed before segments
+ * existed fall back to one segment per chunk. Speaker labels are swapped for
+ * their display names (renames and merges), stored text is left untouched
  *
  * @param sessionId - Recording session ID
  * @returns Aggregated transcript with timing information
@@ -34,23 +155,46 @@ export interface AggregatedTranscript {
  * ```
  */
 export async function mergeChunkTranscripts(sessionId: string): Promise<AggregatedTranscript> {
-  const chunks = await db.transcriptChunk.findMany({
-    where: {
-      sessionId,
-      status: "transcribed",
-      text: { not: null },
-    },
-    orderBy: { seq: "asc" },
-    select: {
-      seq: true,
-      text: true,
-      speaker: true,
-      confidence: true,
-      durationMs: true,
-    },
-  });
-
-  if (chunks.length === 0) {
+  const [chunks, rows, speakerNames] = await Promise.all([
+    db.transcriptChunk.findMany({
+      where: {
+        sessionId,
+        status: "transcribed",
+        text: { not: null },
+      },
+      orderBy: { seq: "asc" },
+      select: {
+        id: true,
+        seq: true,
+        text: true,
+        speaker: true,
+        confidence: true,
+        durationMs: true,
+        startOffsetMs: true,
+      },
+    }),
+    db.transcriptSegment.findMany({
+      where: {
+        sessionId,
+        OR: [{ chunkId: null }, { chunk: { status: "transcribed" } }],
+      },
+      orderBy: [{ startMs: "asc" }, { index: "asc" }],
+      select: {
+        chunkId: true,
+        seq: true,
+        startMs: true,
+        endMs: true,
+        text: true,
+        speaker: true,
+        confidence: true,
+      },
+    }),
+    getSpeakerNameMap(sessionId),
+  ]);
+
+  const displayName = (label: string | null) => (label && speakerNames.get(label)) || label;
+
+  if (chunks.length === 0 && rows.length === 0) {
     return {
       fullText: "",
       segments: [],
@@ -60,22 +204,40 @@ export async function mergeChunkTranscripts(sessionId: string): Promise<Aggregat
       chunkCount: 0,
     };
   }
+
+  const segments: TranscriptSegment[] = rows.map((row) => ({
+    seq: row.seq,
+    text: row.text,
+    speaker: displayName(row.speaker),
+    confidence: row.confidence,
+    durationMs: row.endMs - row.startMs,
+    startTime: row.startMs,
+    endTime: row.endMs,
+  }));
+
+  const chunksWithSegments = new Set(rows.map((row) => row.chunkId));
+
+  // chunks without a stored offset are laid end to end after the previous one
   let cumulativeTime = 0;
-  const segments: TranscriptSegment[] = chunks.map((chunk: any) => {
-    const startTime = cumulativeTime;
-    const endTime = cumulativeTime + chunk.durationMs;
-    cumulativeTime = endTime;
+  for (const chunk of chunks) {
+    const startTime = chunk.startOffsetMs ?? cumulativeTime;
+    const endTime = startTime + chunk.durationMs;
+    cumulativeTime = Math.max(cumulativeTime, endTime);
 
-    return {
+    if (chunksWithSegments.has(chunk.id)) continue;
+
+    segments.push({
       seq: chunk.seq,
       text: chunk.text || "",
-      speaker: chunk.speaker,
+      speaker: displayName(chunk.speaker),
       confidence: chunk.confidence,
       durationMs: chunk.durationMs,
       startTime,
       endTime,
-    };
-  });
+    });
+  }
+
+  segments.sort((a, b) => a.startTime - b.startTime || a.seq - b.seq);
 
   const fullText = segments
     .map((s) => s.text)
@@ -94,7 +256,7 @@ export async function mergeChunkTranscripts(sessionId: string): Promise<Aggregat
   return {
     fullText,
     segments,
-    totalDuration: cumulativeTime,
+    totalDuration: Math.max(cumulativeTime, ...segments.map((s) => s.endTime)),
     wordCount,
     speakers,
     chunkCount: chunks.length,
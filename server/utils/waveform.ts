@@ -0,0 +1,179 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { sessionToAudioMs } from "@/lib/playbackTimeline";
+import { computeAudioPeaks, getAudioMetadata } from "./ffmpeg";
+import { getStitchedAudio } from "./sessionAudio";
+import { getPlaybackTimeline, mergeChunkTranscripts } from "./transcriptAggregation";
+
+// enough detail to spot pauses in a meeting, long recordings get wider buckets instead
+const PEAKS_PER_SECOND = 20;
+const MAX_BUCKETS = 6000;
+
+// decode rate for peak extraction, plenty for min/max buckets
+const PEAKS_SAMPLE_RATE = 8000;
+
+// roughly -34 dBFS, quieter than speech even on a laptop mic
+const SILENCE_THRESHOLD = 0.02;
+const MIN_SILENCE_MS = 2000;
+
+// waveform computations in progress, finalize and a first page load may overlap
+const inFlight = new Map<string, Promise<WaveformData | null>>();
+
+export interface SilentRegion {
+  startMs: number;
+  endMs: number;
+}
+
+export interface SpeakerTurn {
+  speaker: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Waveform of the stitched session audio, every offset is audio time (pauses excluded)
+ */
+export interface WaveformData {
+  bucketMs: number;
+  durationMs: number;
+  // interleaved [min, max, min, max, ...] per bucket, -1..1
+  peaks: number[];
+  silences: SilentRegion[];
+  generatedAt: string;
+}
+
+function peaksPathFor(sessionId: string, stitchedPath: string): string {
+  return path.join(path.dirname(stitchedPath), `${sessionId}_peaks.json`);
+}
+
+/**
+ * Runs of quiet buckets that last at least MIN_SILENCE_MS
+ */
+function findSilences(peaks: number[], bucketMs: number): SilentRegion[] {
+  const silences: SilentRegion[] = [];
+  let runStart: number | null = null;
+
+  const closeRun = (endBucket: number) => {
+    if (runStart === null) return;
+    const startMs = Math.round(runStart * bucketMs);
+    const endMs = Math.round(endBucket * bucketMs);
+    if (endMs - startMs >= MIN_SILENCE_MS) silences.push({ startMs, endMs });
+    runStart = null;
+  };
+
+  const buckets = peaks.length / 2;
+  for (let i = 0; i < buckets; i++) {
+    const amplitude = Math.max(-peaks[i * 2], peaks[i * 2 + 1]);
+    if (amplitude < SILENCE_THRESHOLD) {
+      if (runStart === null) runStart = i;
+    } else {
+      closeRun(i);
+    }
+  }
+  closeRun(buckets);
+
+  return silences;
+}
+
+async function readWaveform(peaksPath: string): Promise<WaveformData | null> {
+  try {
+    return JSON.parse(await fs.readFile(peaksPath, "utf8")) as WaveformData;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Waveform peaks of a session, computed from the stitched audio when missing or stale
+ * Stored as `<sessionId>_peaks.json` next to the stitched file, a re-stitch
+ * (late chunk) makes the stored peaks older than the audio and triggers a recompute
+ *
+ * @returns Peaks and silent regions, null when the session has no chunk audio
+ */
+export async function getWaveform(sessionId: string): Promise<WaveformData | null> {
+  const running = inFlight.get(sessionId);
+  if (running) return running;
+
+  const compute = (async () => {
+    const audio = await getStitchedAudio(sessionId);
+    if (!audio) return null;
+
+    const peaksPath = peaksPathFor(sessionId, audio.path);
+    const stats = await fs.stat(peaksPath).catch(() => null);
+
+    if (stats && stats.mtime >= audio.modifiedAt) {
+      const stored = await readWaveform(peaksPath);
+      if (stored) return stored;
+    }
+
+    const startedAt = Date.now();
+    const { duration: probedSeconds } = await getAudioMetadata(audio.path);
+    const samplesPerBucket = Math.max(
+      PEAKS_SAMPLE_RATE / PEAKS_PER_SECOND,
+      Math.ceil((probedSeconds * PEAKS_SAMPLE_RATE) / MAX_BUCKETS)
+    );
+
+    // the decoded length is exact, the probed one can be off for concatenated webm
+    const { peaks, durationSeconds } = await computeAudioPeaks(audio.path, {
+      samplesPerBucket,
+      sampleRate: PEAKS_SAMPLE_RATE,
+    });
+
+    const bucketMs = (samplesPerBucket / PEAKS_SAMPLE_RATE) * 1000;
+    const rounded = peaks.map((value) => Math.round(value * 1000) / 1000);
+
+    const waveform: WaveformData = {
+      bucketMs,
+      durationMs: Math.round(durationSeconds * 1000),
+      peaks: rounded,
+      silences: findSilences(rounded, bucketMs),
+      generatedAt: new Date().toISOString(),
+    };
+
+    const tempPath = `${peaksPath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(waveform));
+    await fs.rename(tempPath, peaksPath);
+
+    console.log(
+      `[Waveform] ${rounded.length / 2} buckets for ${sessionId} in ${Date.now() - startedAt}ms`
+    );
+    return waveform;
+  })();
+
+  inFlight.set(sessionId, compute);
+  try {
+    return await compute;
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
+
+/**
+ * Who spoke when, in audio time so it lines up with the waveform
+ * Consecutive segments of the same speaker are folded into one turn
+ */
+export async function getSpeakerTurns(sessionId: string): Promise<SpeakerTurn[]> {
+  const [aggregated, timeline] = await Promise.all([
+    mergeChunkTranscripts(sessionId),
+    getPlaybackTimeline(sessionId),
+  ]);
+
+  const turns: SpeakerTurn[] = [];
+  for (const segment of aggregated.segments) {
+    if (!segment.speaker) continue;
+
+    const startMs = sessionToAudioMs(timeline, segment.startTime);
+    const endMs = sessionToAudioMs(timeline, segment.endTime);
+    if (endMs <= startMs) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.endMs = Math.max(last.endMs, endMs);
+    } else {
+      turns.push({ speaker: segment.speaker, startMs, endMs });
+    }
+  }
+
+  return turns;
+}
@@ -0,0 +1,27 @@
+import { finalizeQueue } from "../queues/postgres-queue";
+import { finalizeSession } from "../processors/finalize";
+
+// finalization worker - merges transcripts, summarizes and completes stopped sessions
+
+export function initializeFinalizeWorker() {
+  console.log("[Worker] Initializing finalize worker...");
+
+  finalizeQueue.process(async (job) => {
+    await finalizeSession(job.data.sessionId);
+  });
+
+  console.log("[Worker] Finalize worker initialized");
+}
+
+/**
+ * Queue a stopped session for finalization
+ *
+ * @param delayMs - grace period for the last chunks to arrive
+ */
+export async function queueFinalization(sessionId: string, delayMs = 0): Promise<string> {
+  const jobId = await finalizeQueue.add({ sessionId }, { delayMs });
+
+  console.log(`[Worker] Queued finalization: session=${sessionId}, job=${jobId}`);
+
+  return jobId;
+}
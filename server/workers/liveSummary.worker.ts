@@ -0,0 +1,56 @@
+import { prisma as db } from "@/lib/db";
+import { liveSummaryQueue } from "../queues/postgres-queue";
+import {
+  getLiveSummary,
+  getLiveSummaryInterval,
+  getPendingLiveChunks,
+  updateLiveSummary,
+} from "../processors/liveSummary";
+import { getIO } from "../server";
+
+// live summary worker - keeps a rolling summary and action items while a session records
+
+// the rolling summary only runs while the meeting is still going
+const LIVE_STATUSES = ["recording", "paused", "interrupted"];
+
+export function initializeLiveSummaryWorker() {
+  console.log("[Worker] Initializing live summary worker...");
+
+  liveSummaryQueue.process(async (job) => {
+    const { sessionId } = job.data;
+    const liveSummary = await updateLiveSummary(sessionId);
+    if (!liveSummary) return;
+
+    getIO()
+      .to(`session:${sessionId}`)
+      .emit("live-summary-updated", { sessionId, ...liveSummary });
+  });
+
+  console.log("[Worker] Live summary worker initialized");
+}
+
+/**
+ * Queue a live summary update once LIVE_SUMMARY_EVERY_CHUNKS new chunks are transcribed
+ * Called after every chunk, does nothing when the interval isn't reached or a job is pending
+ */
+export async function queueLiveSummaryIfDue(sessionId: string): Promise<void> {
+  const interval = getLiveSummaryInterval();
+  if (!(interval > 0)) return;
+
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { status: true },
+  });
+  if (!session || !LIVE_STATUSES.includes(session.status)) return;
+
+  if ((await liveSummaryQueue.countActive(sessionId)) > 0) return;
+
+  const previous = await getLiveSummary(sessionId);
+  const pending = await getPendingLiveChunks(sessionId, previous?.throughSeq ?? -1);
+  if (pending.length < interval) return;
+
+  const jobId = await liveSummaryQueue.add({ sessionId });
+  console.log(
+    `[Worker] Queued live summary: session=${sessionId}, ${pending.length} new chunks, job=${jobId}`
+  );
+}
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { prisma as db } from "@/lib/db";
+import { finalizeQueue, transcriptionQueue, uploadQueue } from "../queues/postgres-queue";
+import { queueTranscription } from "./transcription.worker";
+import { queueFinalization } from "./finalize.worker";
+
+// every job payload carries the sessionId it works on, transcription jobs add the chunk
+const ActiveJobPayloadSchema = z.object({
+  sessionId: z.string(),
+  sequence: z.number().optional(),
+});
+
+// minutes without chunks or pause/resume before a live session counts as abandoned
+const IDLE_MINUTES = parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || "15", 10);
+
+/**
+ * Pick up work a crashed process left behind
+ * Chunks and sessions that already have a queued or running job are left alone,
+ * the queue reclaims those itself once their visibility timeout lapses
+ */
+export async function runRecovery(): Promise<void> {
+  console.log("[Recovery] Starting recovery pass...");
+
+  const chunks = await recoverOrphanedChunks();
+  const sessions = await recoverStuckSessions();
+  const interrupted = await markIdleSessionsInterrupted();
+
+  console.log(
+    `[Recovery] Done: ${chunks} chunks re-queued, ${sessions} sessions re-finalized, ${interrupted} sessions interrupted`
+  );
+}
+
+/**
+ * Re-queue chunks stored but never transcribed (no job, or the job was lost)
+ */
+async function recoverOrphanedChunks(): Promise<number> {
+  const chunks = await db.transcriptChunk.findMany({
+    where: { status: { in: ["uploaded", "processing"] } },
+    select: { sessionId: true, seq: true },
+    orderBy: [{ sessionId: "asc" }, { seq: "asc" }],
+  });
+
+  if (chunks.length === 0) return 0;
+
+  const active = await activeJobPayloads(transcriptionQueue.type);
+  const queued = new Set(active.map((payload) => `${payload.sessionId}:${payload.sequence}`));
+
+  let count = 0;
+  for (const chunk of chunks) {
+    if (queued.has(`${chunk.sessionId}:${chunk.seq}`)) continue;
+
+    await queueTranscription(chunk.sessionId, chunk.seq);
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Re-run finalization for recorded sessions left in processing
+ */
+async function recoverStuckSessions(): Promise<number> {
+  const sessions = await db.recordingSession.findMany({
+    where: { status: { in: ["processing", "finalizing"] } },
+    select: { id: true, _count: { select: { chunks: true } } },
+  });
+
+  if (sessions.length === 0) return 0;
+
+  const [finalizing, uploading] = await Promise.all([
+    activeJobPayloads(finalizeQueue.type),
+    activeJobPayloads(uploadQueue.type),
+  ]);
+  const busy = new Set([...finalizing, ...uploading].map((payload) => payload.sessionId));
+
+  let count = 0;
+  for (const session of sessions) {
+    if (busy.has(session.id)) continue;
+
+    // uploads have no chunks, their upload job carries the file and retries on its own
+    if (session._count.chunks === 0) {
+      console.warn(`[Recovery] upload session ${session.id} has no active job, leaving as is`);
+      continue;
+    }
+
+    await queueFinalization(session.id);
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Mark recording/paused sessions with no recent activity as interrupted
+ * The client can still reconnect and resume appending chunks to them
+ */
+export async function markIdleSessionsInterrupted(): Promise<number> {
+  const cutoff = new Date(Date.now() - IDLE_MINUTES * 60 * 1000);
+
+  const candidates = await db.recordingSession.findMany({
+    where: { status: { in: ["recording", "paused"] }, updatedAt: { lt: cutoff } },
+    select: {
+      id: true,
+      chunks: { orderBy: { createdAt: "desc" }, take: 1, select: { createdAt: true } },
+    },
+  });
+
+  const idle = candidates
+    .filter((session) => !session.chunks[0] || session.chunks[0].createdAt < cutoff)
+    .map((session) => session.id);
+
+  if (idle.length === 0) return 0;
+
+  // re-check the status so a session resumed meanwhile isn't flipped back
+  const { count } = await db.recordingSession.updateMany({
+    where: { id: { in: idle }, status: { in: ["recording", "paused"] } },
+    data: { status: "interrupted" },
+  });
+
+  for (const sessionId of idle) {
+    console.log(`[Recovery] session ${sessionId} idle for ${IDLE_MINUTES}m, marked interrupted`);
+  }
+
+  return count;
+}
+
+async function activeJobPayloads(
+  type: string
+): Promise<Array<z.infer<typeof ActiveJobPayloadSchema>>> {
+  const jobs = await db.job.findMany({
+    where: { type, status: { in: ["queued", "running"] } },
+    select: { payload: true },
+  });
+
+  return jobs.flatMap((job) => {
+    const parsed = ActiveJobPayloadSchema.safeParse(job.payload);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function initializeRecoveryWorker(): void {
+  console.log(`[Recovery] Worker initialized - idle timeout ${IDLE_MINUTES}m`);
+
+  runRecovery().catch((error) => console.error("[Recovery] recovery pass failed:", error));
+
+  // sessions still live at boot can go idle later, keep sweeping for them
+  setInterval(
+    () =>
+      markIdleSessionsInterrupted().catch((error) =>
+        console.error("[Recovery] idle sweep failed:", error)
+      ),
+    Math.max(60 * 1000, (IDLE_MINUTES * 60 * 1000) / 3)
+  );
+}
@@ -0,0 +1,79 @@
+import { summaryQueue } from "../queues/postgres-queue";
+import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import type { SummaryOptions } from "@/lib/transcriptionEngine";
+import { mergeChunkTranscripts } from "../utils/transcriptAggregation";
+import { saveSummaryVersion } from "../utils/summaryVersions";
+import { generateSummary } from "../processors/summary";
+
+// summary worker - regenerates a completed session's summary as a new version
+
+export interface SummaryJobStatus {
+  id: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+export function initializeSummaryWorker() {
+  console.log("[Worker] Initializing summary worker...");
+
+  summaryQueue.process(async (job) => {
+    const { sessionId, templateId, options } = job.data;
+    await regenerateSummary(sessionId, templateId, options);
+  });
+
+  console.log("[Worker] Summary worker initialized");
+}
+
+export async function queueSummaryRegeneration(
+  sessionId: string,
+  templateId: string | undefined,
+  options: SummaryOptions
+): Promise<string> {
+  const jobId = await summaryQueue.add({ sessionId, templateId, options });
+
+  console.log(`[Worker] Queued summary regeneration: session=${sessionId}, job=${jobId}`);
+
+  return jobId;
+}
+
+/**
+ * Latest regeneration job for a session, so clients can poll until it finishes
+ */
+export async function getLatestSummaryJob(sessionId: string): Promise<SummaryJobStatus | null> {
+  return db.job.findFirst({
+    where: { type: summaryQueue.type, payload: { path: ["sessionId"], equals: sessionId } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, status: true, attempts: true, lastError: true, createdAt: true },
+  });
+}
+
+async function regenerateSummary(
+  sessionId: string,
+  templateId: string | undefined,
+  options: SummaryOptions
+): Promise<void> {
+  const session = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { engine: true, userId: true },
+  });
+
+  // deleted while queued, nothing left to summarize
+  if (!session) return;
+
+  const engine = await resolveSessionEngine(session);
+  const aggregated = await mergeChunkTranscripts(sessionId);
+
+  const summary = await generateSummary(sessionId, aggregated.fullText, engine, {
+    ...options,
+    templateId,
+  });
+  const version = await saveSummaryVersion(sessionId, summary, {
+    options,
+    engine: engine.name,
+  });
+
+  console.log(`[Summary] session ${sessionId} regenerated as version ${version}`);
+}
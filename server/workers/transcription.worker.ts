@@ -1,17 +1,32 @@
-import { transcriptionQueue } from "../queues/simple-queue";
+import { transcriptionQueue } from "../queues/postgres-queue";
+import type { FailedJobFilter } from "../queues/postgres-queue";
 import { prisma as db } from "@/lib/db";
-import { convertToWav } from "../utils/ffmpeg";
-import { gemini } from "@/lib/gemini";
+import { convertToWav, convertWithOverlapToWav } from "../utils/ffmpeg";
+import { getTranscriptionEngine, resolveSessionEngine } from "@/lib/engineRegistry";
+import type {
+  SpeakerRosterEntry,
+  TokenUsage,
+  TranscriptionResult,
+  TranscriptionEngine,
+} from "@/lib/transcriptionEngine";
 import fs from "fs/promises";
 import path from "path";
 import { chunkLogger, sessionLogger } from "../utils/logger";
 import { getIO } from "../server";
+import { getChunkOffsetMs, storeTranscriptSegments } from "../utils/transcriptAggregation";
+import { checkEngineOverride, saveChunkTranscriptVersion } from "../utils/retranscription";
+import { queueLiveSummaryIfDue } from "./liveSummary.worker";
+import { evaluateAlertRules } from "../utils/keywordAlerts";
+import type { KeywordAlert } from "../utils/keywordAlerts";
+import { dedupeOverlap, dropLeadingWords, tokenizeWords } from "../utils/textAlignment";
+import type { RetranscribeOverrides } from "../schemas/transcript.schema";
 
 // transcription worke for audio chunks
 
 interface TranscriptionJobData {
   sessionId: string;
   sequence: number;
+  retranscribe?: RetranscribeOverrides;
 }
 
 // init transcripion worker
@@ -19,14 +34,38 @@ export function initializeTranscriptionWorker() {
   console.log("[Worker] Initializing transcription worker...");
 
   transcriptionQueue.process(async (job) => {
-    const { sessionId, sequence } = job.data;
+    const { sessionId, sequence, retranscribe } = job.data;
+
+    if (retranscribe) {
+      emitRetranscribeProgress(sessionId, { sequence, status: "started" });
+    }
 
     try {
-      await processTranscription(sessionId, sequence);
+      await processTranscription(sessionId, sequence, retranscribe);
     } catch (error) {
       console.error(`[Worker] Failed to process chunk ${sessionId}/${sequence}:`, error);
+
+      if (retranscribe) {
+        const willRetry = job.attempts < job.maxAttempts;
+        emitRetranscribeProgress(sessionId, {
+          sequence,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          willRetry,
+          // this job still counts as active until the queue reschedules or fails it
+          remaining: (await transcriptionQueue.countActive(sessionId)) - (willRetry ? 0 : 1),
+        });
+      }
       throw error; // Re-throw to trigger retry
     }
+
+    if (retranscribe) {
+      emitRetranscribeProgress(sessionId, {
+        sequence,
+        status: "completed",
+        remaining: (await transcriptionQueue.countActive(sessionId)) - 1,
+      });
+    }
   });
 
   console.log("[Worker] Transcription worker initialized with queue processing");
@@ -44,8 +83,13 @@ export async function queueTranscription(sessionId: string, sequence: number): P
   return jobId;
 }
 
-// main transcripion procesing - converts audio, calls gemini, updates db
-async function processTranscription(sessionId: string, sequence: number): Promise<void> {
+// main transcripion procesing - converts audio, calls the session engine, updates db
+// overrides are only set on re-transcriptions
+async function processTranscription(
+  sessionId: string,
+  sequence: number,
+  overrides?: RetranscribeOverrides
+): Promise<void> {
   const startTime = Date.now();
 
   console.log(`[Worker] starting transcription: session=${sessionId}, seq=${sequence}`);
@@ -63,11 +107,19 @@ async function processTranscription(sessionId: string, sequence: number): Promis
     throw new Error(`Chunk not found: ${sessionId}/${sequence}`);
   }
 
+  if (overrides) {
+    const version = await saveChunkTranscriptVersion(chunk.id, overrides);
+    if (version) console.log(`[Worker] kept chunk ${sequence} transcript as version ${version}`);
+  }
+
   await db.transcriptChunk.update({
     where: { id: chunk.id },
     data: { status: "processing" },
   });
 
+  // filled in stage by stage so a failed attempt still records how far it got
+  const attempt: ChunkAttemptStats = {};
+
   try {
     // convert webm to wav
     console.log(`[Worker] converting audio: ${chunk.audioPath}`);
@@ -77,29 +129,67 @@ async function processTranscription(sessionId: string, sequence: number): Promis
     const conversionResult = await convertToWav(chunk.audioPath, wavPath, {
       sampleRate: 16000,
       channels: 1,
-      applyFilters: false,
+      applyFilters: overrides?.filters ?? false,
       deleteSource: false,
     });
 
     const conversionTime = Date.now() - conversionStart;
+    attempt.conversionMs = conversionTime;
     console.log(`[Worker] conversion completed in ${conversionTime}ms: ${wavPath}`);
 
+    // the decoded wav gives the exact length, the stored one may be a client-side estimate
+    const durationMs =
+      conversionResult.durationSeconds > 0
+        ? Math.round(conversionResult.durationSeconds * 1000)
+        : chunk.durationMs;
+
+    // overlap mode: prepend the previous chunk's tail, the duplicate words are removed below
+    const overlap = await prepareOverlap(sessionId, sequence, chunk.audioPath, durationMs, {
+      applyFilters: overrides?.filters ?? false,
+    });
+
     // get previos context for continuety
     const previousContext = await getPreviousContext(sessionId, sequence);
 
-    console.log(`[Worker] calling gemini api for transcription...`);
+    // jobs queued before the routes checked this, or retried from the dead letters
+    const overrideError = overrides ? await checkEngineOverride(chunk.session, overrides) : null;
+    if (overrideError) throw new Error(overrideError);
+
+    const engine = overrides?.engine
+      ? getTranscriptionEngine(overrides.engine)
+      : await resolveSessionEngine(chunk.session);
+    const model = overrides?.model ?? engine.model;
+    attempt.engine = engine;
+    attempt.model = model;
+
+    console.log(`[Worker] calling ${engine.name} (${model}) for transcription...`);
     const transcriptionStart = Date.now();
 
-    const enableDiarization = process.env.ENABLE_SPEAKER_DIARIZATION === "true";
+    const enableDiarization =
+      overrides?.diarization ?? process.env.ENABLE_SPEAKER_DIARIZATION === "true";
+    const speakerRoster = enableDiarization
+      ? await getSpeakerRoster(sessionId, sequence)
+      : undefined;
 
-    const result = await gemini.transcribeChunk(sessionId, sequence, wavPath, {
+    const result = await engine.transcribeChunk(sessionId, sequence, overlap?.path ?? wavPath, {
       previousContext,
+      speakerRoster,
       enableDiarization,
-      languageHint: "en-US",
+      languageHint: overrides?.language ?? "en-US",
       temperature: 0.1,
+      model: overrides?.model,
     });
 
     const transcriptionTime = Date.now() - transcriptionStart;
+    attempt.transcriptionMs = transcriptionTime;
+    attempt.usage = result.usage;
+
+    if (overlap) {
+      const removedWords = trimOverlap(result, overlap.previousText, overlap.overlapMs);
+      console.log(
+        `[Worker] overlap of ${overlap.overlapMs}ms with chunk ${sequence - 1}: removed ${removedWords} duplicate words`
+      );
+    }
 
     if (!result.text || result.text.length < 3) {
       console.warn(`[Worker] empty transcript for chunk ${sequence}`);
@@ -117,10 +207,24 @@ async function processTranscription(sessionId: string, sequence: number): Promis
         text: result.text,
         speaker: result.speakers?.[0] || null,
         confidence: result.confidence || null,
+        engine: engine.name,
+        model,
+        durationMs,
         status: "transcribed",
       },
     });
 
+    // timed segments, shifted from chunk-relative to session offsets
+    const offsetMs = await getChunkOffsetMs(sessionId, sequence);
+    const segmentCount = await storeTranscriptSegments({
+      sessionId,
+      chunkId: chunk.id,
+      seq: sequence,
+      offsetMs,
+      durationMs,
+      result,
+    });
+
     // Step 7: Log success
     const totalTime = Date.now() - startTime;
     chunkLogger.processed(sessionId, sequence, result.text.length, {
@@ -129,12 +233,16 @@ async function processTranscription(sessionId: string, sequence: number): Promis
       chunkId: chunk.id,
       processingTimeMs: totalTime,
       audioPath: chunk.audioPath,
+      durationMs,
+      startOffsetMs: offsetMs,
     });
 
     console.log(
-      `[Worker] Chunk processed successfully: chunk=${chunk.id}, total=${totalTime}ms (conversion=${conversionTime}ms, transcription=${transcriptionTime}ms)`
+      `[Worker] Chunk processed successfully: chunk=${chunk.id}, segments=${segmentCount}, total=${totalTime}ms (conversion=${conversionTime}ms, transcription=${transcriptionTime}ms)`
     );
 
+    await recordChunkAttempt(chunk.id, attempt, totalTime);
+
     emitTranscriptUpdate(sessionId, {
       sequence,
       text: result.text,
@@ -142,6 +250,15 @@ async function processTranscription(sessionId: string, sequence: number): Promis
       chunkId: chunk.id,
     });
 
+    // alerts are for live sessions, re-transcribing old chunks must not fire them again
+    if (!overrides) {
+      await evaluateAlertRules(sessionId, chunk.id)
+        .then((alerts) => emitKeywordAlerts(sessionId, alerts))
+        .catch((error) =>
+          console.warn(`[Worker] Failed to evaluate alert rules for ${sessionId}:`, error)
+        );
+    }
+
     // Step 8: Cleanup temporary WAV file
     try {
       await fs.unlink(wavPath);
@@ -149,19 +266,32 @@ async function processTranscription(sessionId: string, sequence: number): Promis
     } catch (cleanupError) {
       console.warn(`[Worker] Failed to cleanup WAV file: ${wavPath}`);
     }
+    if (overlap) {
+      await fs.unlink(overlap.path).catch(() => {});
+    }
 
     // Step 9: Check if session is complete and aggregate
-    await checkAndAggregateSession(sessionId);
+    // re-transcriptions are rebuilt by the finalize job queued alongside them
+    if (!overrides) {
+      await checkAndAggregateSession(sessionId);
+
+      // a failed live summary must not fail the chunk
+      await queueLiveSummaryIfDue(sessionId).catch((error) =>
+        console.warn(`[Worker] Failed to queue live summary for ${sessionId}:`, error)
+      );
+    }
   } catch (error) {
-    // Update status to failed
+    // Update status to failed, the reason lives on the attempt
+    // a failed re-transcription keeps the previous transcript, which is still stored
     await db.transcriptChunk.update({
       where: { id: chunk.id },
       data: {
-        status: "failed",
-        // Store error message if schema supports it
+        status: overrides && chunk.text ? "transcribed" : "failed",
       },
     });
 
+    await recordChunkAttempt(chunk.id, attempt, Date.now() - startTime, error);
+
     chunkLogger.error({
       sessionId,
       sequence,
@@ -172,6 +302,142 @@ async function processTranscription(sessionId: string, sequence: number): Promis
   }
 }
 
+interface ChunkOverlap {
+  path: string;
+  overlapMs: number;
+  previousText: string;
+}
+
+/**
+ * Build the overlap WAV when CHUNK_OVERLAP_SECONDS is set
+ * Needs the previous chunk transcribed already, its text is what the overlap is aligned against
+ *
+ * @returns The overlap audio, or null to transcribe the chunk on its own
+ */
+async function prepareOverlap(
+  sessionId: string,
+  sequence: number,
+  audioPath: string,
+  durationMs: number,
+  options: { applyFilters: boolean }
+): Promise<ChunkOverlap | null> {
+  const overlapSeconds = parseFloat(process.env.CHUNK_OVERLAP_SECONDS || "0");
+  if (!(overlapSeconds > 0) || sequence === 0) return null;
+
+  const previous = await db.transcriptChunk.findUnique({
+    where: { sessionId_seq: { sessionId, seq: sequence - 1 } },
+    select: { audioPath: true, text: true, status: true },
+  });
+
+  if (!previous?.text || previous.status !== "transcribed") {
+    console.log(`[Worker] chunk ${sequence - 1} not transcribed yet, no overlap for ${sequence}`);
+    return null;
+  }
+
+  const overlapPath = audioPath.replace(".webm", ".overlap.wav");
+
+  try {
+    const result = await convertWithOverlapToWav(
+      previous.audioPath,
+      audioPath,
+      overlapPath,
+      overlapSeconds,
+      { sampleRate: 16000, channels: 1, applyFilters: options.applyFilters }
+    );
+    const overlapMs = Math.round(result.durationSeconds * 1000) - durationMs;
+
+    if (overlapMs <= 0) {
+      await fs.unlink(overlapPath).catch(() => {});
+      return null;
+    }
+
+    return { path: overlapPath, overlapMs, previousText: previous.text };
+  } catch (error) {
+    console.warn(
+      `[Worker] overlap conversion failed for chunk ${sequence}, transcribing alone:`,
+      error
+    );
+    return null;
+  }
+}
+
+// drop the words the overlap repeated from the previous chunk and move offsets back to chunk time
+function trimOverlap(result: TranscriptionResult, previousText: string, overlapMs: number): number {
+  const { text, removedWords } = dedupeOverlap(previousText, result.text);
+  result.text = text;
+
+  if (result.segments) {
+    let remaining = removedWords;
+    const shift = (ms: number) => Math.max(0, ms - overlapMs);
+
+    result.segments = result.segments
+      .map((segment) => {
+        const drop = Math.min(remaining, tokenizeWords(segment.text).length);
+        remaining -= drop;
+
+        return {
+          ...segment,
+          startMs: shift(segment.startMs),
+          endMs: shift(segment.endMs),
+          text: dropLeadingWords(segment.text, drop),
+          words: segment.words
+            ?.slice(drop)
+            .map((word) => ({ ...word, startMs: shift(word.startMs), endMs: shift(word.endMs) })),
+        };
+      })
+      .filter((segment) => segment.text.length > 0);
+  }
+
+  return removedWords;
+}
+
+interface ChunkAttemptStats {
+  engine?: TranscriptionEngine;
+  model?: string;
+  conversionMs?: number;
+  transcriptionMs?: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * Store one ChunkAttempt row, a failure here must not mask the transcription outcome
+ */
+async function recordChunkAttempt(
+  chunkId: string,
+  stats: ChunkAttemptStats,
+  totalMs: number,
+  error?: unknown
+): Promise<void> {
+  try {
+    const previous = await db.chunkAttempt.count({ where: { chunkId } });
+    const failure =
+      error === undefined
+        ? null
+        : error instanceof Error
+          ? { errorClass: error.constructor.name, errorMessage: error.message }
+          : { errorClass: typeof error, errorMessage: String(error) };
+
+    await db.chunkAttempt.create({
+      data: {
+        chunkId,
+        attempt: previous + 1,
+        status: failure ? "failed" : "succeeded",
+        engine: stats.engine?.name ?? null,
+        model: stats.model ?? stats.engine?.model ?? null,
+        errorClass: failure?.errorClass ?? null,
+        errorMessage: failure?.errorMessage ?? null,
+        conversionMs: stats.conversionMs ?? null,
+        transcriptionMs: stats.transcriptionMs ?? null,
+        totalMs,
+        inputTokens: stats.usage?.inputTokens ?? null,
+        outputTokens: stats.usage?.outputTokens ?? null,
+      },
+    });
+  } catch (recordError) {
+    console.error(`[Worker] Failed to record attempt for chunk ${chunkId}:`, recordError);
+  }
+}
+
 /**
  * Get previous transcript context for continuity
  * Returns last 50 words from previous chunks
@@ -214,6 +480,41 @@ async function getPreviousContext(
   return context;
 }
 
+/**
+ * Get speaker labels used by earlier chunks so diarization keeps them stable
+ * Each label carries its most recent line as a hint
+ */
+async function getSpeakerRoster(
+  sessionId: string,
+  currentSeq: number
+): Promise<SpeakerRosterEntry[] | undefined> {
+  const previousSegments = await db.transcriptSegment.findMany({
+    where: {
+      sessionId,
+      seq: { lt: currentSeq },
+      speaker: { not: null },
+    },
+    orderBy: { startMs: "desc" },
+    take: 200,
+    select: { speaker: true, text: true },
+  });
+
+  const roster = new Map<string, string>();
+  for (const segment of previousSegments) {
+    if (segment.speaker && !roster.has(segment.speaker)) {
+      roster.set(segment.speaker, segment.text.split(/\s+/).slice(-15).join(" "));
+    }
+  }
+
+  if (roster.size === 0) {
+    return undefined;
+  }
+
+  return Array.from(roster.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, lastSaid]) => ({ label, lastSaid }));
+}
+
 /**
  * Check if all chunks are transcribed and aggregate into session transcript
  */
@@ -277,11 +578,12 @@ export function getQueueStats() {
 }
 
 /**
- * Retry all failed jobs in the queue
+ * Retry failed jobs in the queue, all of them unless filtered by job or session
  */
-export function retryFailedJobs() {
-  transcriptionQueue.retryFailedJobs();
-  console.log("[Worker] Retrying all failed jobs");
+export async function retryFailedJobs(filter: FailedJobFilter = {}) {
+  const count = await transcriptionQueue.retryFailedJobs(filter);
+  console.log(`[Worker] Retrying ${count} failed jobs`);
+  return count;
 }
 
 function emitTranscriptUpdate(
@@ -303,3 +605,34 @@ function emitTranscriptUpdate(
     timestamp: Date.now(),
   });
 }
+
+function emitKeywordAlerts(sessionId: string, alerts: KeywordAlert[]) {
+  if (alerts.length === 0) return;
+
+  const io = getIO();
+  for (const alert of alerts) {
+    io.to(`session:${sessionId}`).emit("keyword-alert", {
+      sessionId,
+      ...alert,
+      timestamp: Date.now(),
+    });
+  }
+}
+
+function emitRetranscribeProgress(
+  sessionId: string,
+  data: {
+    sequence: number;
+    status: "started" | "completed" | "failed";
+    remaining?: number;
+    error?: string;
+    willRetry?: boolean;
+  }
+) {
+  const io = getIO();
+  io.to(`session:${sessionId}`).emit("retranscribe-progress", {
+    sessionId,
+    ...data,
+    timestamp: Date.now(),
+  });
+}
@@ -0,0 +1,116 @@
+import { uploadQueue } from "../queues/postgres-queue";
+import { prisma as db } from "@/lib/db";
+import { resolveSessionEngine } from "@/lib/engineRegistry";
+import { convertToWav, getAudioMetadata } from "../utils/ffmpeg";
+import { storeTranscriptSegments } from "../utils/transcriptAggregation";
+import { saveSummaryVersion } from "../utils/summaryVersions";
+import { embedSession } from "../processors/embeddings";
+import { generateSummary } from "../processors/summary";
+
+// upload worker - transcribes and summarizes a whole uploaded file in one go
+
+export function initializeUploadWorker() {
+  console.log("[Worker] Initializing upload worker...");
+
+  uploadQueue.process(async (job) => {
+    const { sessionId, filePath } = job.data;
+
+    try {
+      await transcribeUploadedFile(sessionId, filePath);
+    } catch (error) {
+      console.error(`[Upload] Transcription error for ${sessionId}:`, error);
+
+      // earlier attempts are retried, only the last one fails the session
+      if (job.attempts >= job.maxAttempts) {
+        await db.recordingSession.update({
+          where: { id: sessionId },
+          data: {
+            status: "failed",
+            transcript: `Transcription failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        });
+      }
+      throw error;
+    }
+  });
+
+  console.log("[Worker] Upload worker initialized");
+}
+
+export async function queueUpload(sessionId: string, filePath: string): Promise<string> {
+  const jobId = await uploadQueue.add({ sessionId, filePath });
+
+  console.log(`[Worker] Queued upload: session=${sessionId}, job=${jobId}`);
+
+  return jobId;
+}
+
+async function transcribeUploadedFile(sessionId: string, filePath: string): Promise<void> {
+  const recordingSession = await db.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { engine: true, userId: true },
+  });
+
+  if (!recordingSession) throw new Error(`Session not found: ${sessionId}`);
+
+  const engine = await resolveSessionEngine(recordingSession);
+  console.log(`[Upload] Starting transcription for ${sessionId} with ${engine.name}`);
+
+  // local whisper binaries only read 16kHz wav
+  const audioPath =
+    engine.name === "local"
+      ? (await convertToWav(filePath, `${filePath}.16k.wav`, { sampleRate: 16000, channels: 1 }))
+          .outputPath
+      : filePath;
+
+  // Transcribe the full audio file with increased timeout
+  const result = await engine.transcribeChunk(sessionId, 0, audioPath, {
+    languageHint: "en-US",
+    temperature: 0.1,
+    timeout: 120000, // 2 minutes for longer files
+  });
+
+  console.log(`[Upload] Transcription successful: ${result.text.length} characters`);
+
+  // uploads have no chunks, the whole file is one seq-0 span
+  const { duration } = await getAudioMetadata(filePath).catch(() => ({ duration: 0 }));
+  await storeTranscriptSegments({
+    sessionId,
+    chunkId: null,
+    seq: 0,
+    offsetMs: 0,
+    durationMs: Math.round(duration * 1000),
+    result,
+  });
+
+  // Update session with transcript
+  await db.recordingSession.update({
+    where: { id: sessionId },
+    data: {
+      transcript: result.text,
+      status: "finalizing",
+      endedAt: new Date(),
+    },
+  });
+
+  // Generate summary
+  console.log(`[Upload] Generating summary for ${sessionId}`);
+  const summary = await generateSummary(sessionId, result.text, engine);
+  console.log(`[Upload] Summary generated:`, JSON.stringify(summary, null, 2));
+
+  // Store summary as version 1 and mark complete
+  await saveSummaryVersion(sessionId, summary, { engine: engine.name });
+  await db.recordingSession.update({
+    where: { id: sessionId },
+    data: {
+      status: "completed",
+    },
+  });
+
+  console.log(`[Upload] Transcription completed for ${sessionId}`);
+
+  // search index only, a failure here shouldn't fail the upload
+  embedSession(sessionId).catch((error) =>
+    console.error(`[Upload] Embedding failed for ${sessionId}:`, error)
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+interface QueueStats {
+  type: string;
+  queued: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  concurrency: number;
+}
+
+interface FailedJob {
+  id: string;
+  sessionId: string;
+  sequence: number;
+  session: { id: string; title: string | null; status: string } | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+type DeadLetterTarget = { jobId: string } | { sessionId: string } | { all: true };
+
+// how often queue counts refresh
+const STATS_POLL_MS = 5000;
+
+export default function AdminPage() {
+  const [queues, setQueues] = useState<QueueStats[]>([]);
+  const [jobs, setJobs] = useState<FailedJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    const response = await fetch("/api/admin/queue");
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to fetch queue stats");
+    setQueues(data.queues);
+  }, []);
+
+  const fetchFailedJobs = useCallback(async () => {
+    const response = await fetch("/api/admin/queue/failed");
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to fetch failed jobs");
+    setJobs(data.jobs);
+  }, []);
+
+  useEffect(() => {
+    Promise.all([fetchStats(), fetchFailedJobs()])
+      .then(() => setError(null))
+      .catch((err) => setError(err instanceof Error ? err.message : "An error occurred"))
+      .finally(() => setLoading(false));
+
+    const timer = setInterval(() => {
+      fetchStats().catch(() => {});
+    }, STATS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [fetchStats, fetchFailedJobs]);
+
+  const act = async (action: "retry" | "discard", target: DeadLetterTarget) => {
+    if (action === "discard" && !confirm("Discard these failed jobs? This can't be undone.")) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const response = await fetch("/api/admin/queue/failed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...target }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Failed to ${action} jobs`);
+
+      await Promise.all([fetchStats(), fetchFailedJobs()]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white dark:from-gray-900 dark:to-gray-800">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Job Queues</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Live queue counts and permanently failed transcription jobs
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 flex items-center gap-2 p-4 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        )}
+
+        <div className="mb-10 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {queues.map((queue) => (
+            <div
+              key={queue.type}
+              className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+            >
+              <h2 className="mb-3 font-semibold capitalize text-gray-900 dark:text-white">
+                {queue.type}
+              </h2>
+              <dl className="grid grid-cols-2 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                <dt>Queued</dt>
+                <dd className="text-right font-medium">{queue.queued}</dd>
+                <dt>Running</dt>
+                <dd className="text-right font-medium">
+                  {queue.processing}/{queue.concurrency}
+                </dd>
+                <dt>Completed</dt>
+                <dd className="text-right font-medium">{queue.completed}</dd>
+                <dt>Failed</dt>
+                <dd className={`text-right font-medium ${queue.failed > 0 ? "text-red-600" : ""}`}>
+                  {queue.failed}
+                </dd>
+              </dl>
+            </div>
+          ))}
+        </div>
+
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Failed transcriptions ({jobs.length})
+          </h2>
+          {jobs.length > 0 && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => act("retry", { all: true })}
+                disabled={busy}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-brand-500 text-white text-sm hover:bg-brand-600 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry all
+              </button>
+              <button
+                onClick={() => act("discard", { all: true })}
+                disabled={busy}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-300 text-red-700 text-sm disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Discard all
+              </button>
+            </div>
+          )}
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No failed jobs.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-left text-gray-600 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2">Session</th>
+                  <th className="px-4 py-2">Chunk</th>
+                  <th className="px-4 py-2">Attempts</th>
+                  <th className="px-4 py-2">Last error</th>
+                  <th className="px-4 py-2">Failed</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {jobs.map((job) => (
+                  <tr key={job.id} className="bg-white dark:bg-gray-900 align-top">
+                    <td className="px-4 py-2">
+                      <Link
+                        href={`/sessions/${job.sessionId}`}
+                        className="text-brand-600 hover:underline"
+                      >
+                        {job.session?.title || job.sessionId}
+                      </Link>
+                      {job.session && (
+                        <div className="text-xs text-gray-500">{job.session.status}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">#{job.sequence}</td>
+                    <td className="px-4 py-2">
+                      {job.attempts}/{job.maxAttempts}
+                    </td>
+                    <td className="px-4 py-2 max-w-md break-words text-red-700 dark:text-red-300">
+                      {job.lastError || "Unknown error"}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {new Date(job.failedAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => act("retry", { jobId: job.id })}
+                        disabled={busy}
+                        title="Retry this job"
+                        className="p-1 text-gray-600 hover:text-brand-600 disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => act("retry", { sessionId: job.sessionId })}
+                        disabled={busy}
+                        title="Retry every failed job of this session"
+                        className="px-1 text-xs text-gray-600 hover:text-brand-600 disabled:opacity-50"
+                      >
+                        session
+                      </button>
+                      <button
+                        onClick={() => act("discard", { jobId: job.id })}
+                        disabled={busy}
+                        title="Discard this job"
+                        className="p-1 text-gray-600 hover:text-red-600 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
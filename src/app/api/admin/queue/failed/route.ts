@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { getAdminUser } from "@/lib/adminAuth";
+import { transcriptionQueue } from "@/../server/queues/postgres-queue";
+
+// exactly one target: a job, every failed job of a session, or all of them
+const DeadLetterActionSchema = z
+  .object({
+    action: z.enum(["retry", "discard"]),
+    jobId: z.string().uuid().optional(),
+    sessionId: z.string().min(1).optional(),
+    all: z.literal(true).optional(),
+  })
+  .refine((data) => [data.jobId, data.sessionId, data.all].filter(Boolean).length === 1, {
+    message: "Provide exactly one of jobId, sessionId or all",
+  });
+
+/**
+ * Permanently failed transcription jobs, optionally for one session (?sessionId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await getAdminUser();
+    if (error) return error;
+
+    const sessionId = request.nextUrl.searchParams.get("sessionId") || undefined;
+    const jobs = await transcriptionQueue.getFailedJobs({ sessionId });
+
+    const sessions = await prisma.recordingSession.findMany({
+      where: { id: { in: [...new Set(jobs.map((job) => job.data.sessionId))] } },
+      select: { id: true, title: true, status: true, userId: true },
+    });
+    const sessionById = new Map(sessions.map((session) => [session.id, session]));
+
+    return NextResponse.json({
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        sessionId: job.data.sessionId,
+        sequence: job.data.sequence,
+        session: sessionById.get(job.data.sessionId) ?? null,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        lastError: job.lastError,
+        createdAt: job.createdAt,
+        failedAt: job.failedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("[API] Failed to list failed jobs:", error);
+    return NextResponse.json({ error: "Failed to list failed jobs" }, { status: 500 });
+  }
+}
+
+/**
+ * Retry or discard failed transcription jobs
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await getAdminUser();
+    if (error) return error;
+
+    const parsed = DeadLetterActionSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid dead-letter action",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { action, jobId, sessionId } = parsed.data;
+    const filter = { jobId, sessionId };
+
+    const count =
+      action === "retry"
+        ? await transcriptionQueue.retryFailedJobs(filter)
+        : await transcriptionQueue.discardFailedJobs(filter);
+
+    if (jobId && count === 0) {
+      return NextResponse.json({ error: "Failed job not found" }, { status: 404 });
+    }
+
+    console.log(
+      `[Admin] ${user.email} ${action} ${count} failed transcription jobs (${jobId ?? sessionId ?? "all"})`
+    );
+
+    return NextResponse.json({ action, count });
+  } catch (error) {
+    console.error("[API] Failed to update failed jobs:", error);
+    return NextResponse.json({ error: "Failed to update failed jobs" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getAdminUser } from "@/lib/adminAuth";
+import {
+  finalizeQueue,
+  liveSummaryQueue,
+  summaryQueue,
+  transcriptionQueue,
+  uploadQueue,
+} from "@/../server/queues/postgres-queue";
+
+/**
+ * Live job counts per queue, transcription first
+ */
+export async function GET() {
+  try {
+    const { error } = await getAdminUser();
+    if (error) return error;
+
+    const queues = await Promise.all(
+      [transcriptionQueue, finalizeQueue, summaryQueue, uploadQueue, liveSummaryQueue].map(
+        async (queue) => ({
+          type: queue.type,
+          ...(await queue.getStats()),
+        })
+      )
+    );
+
+    return NextResponse.json({ queues, checkedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error("[API] Failed to fetch queue stats:", error);
+    return NextResponse.json({ error: "Failed to fetch queue stats" }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { AlertRuleInputSchema } from "@/../server/schemas/transcript.schema";
+
+async function getOwnedRule(ruleId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const rule = await prisma.alertRule.findUnique({
+    where: { id: ruleId },
+  });
+
+  if (!rule) {
+    return { error: NextResponse.json({ error: "Alert rule not found" }, { status: 404 }) };
+  }
+
+  if (rule.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { rule };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const { ruleId } = await params;
+    const { rule, error } = await getOwnedRule(ruleId);
+    if (error) return error;
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Invalid alert rule" }, { status: 400 });
+    }
+
+    // patterns are checked against the type, so validate the rule as it will be saved
+    const parsed = AlertRuleInputSchema.safeParse({
+      name: rule.name,
+      type: rule.type,
+      patterns: rule.patterns,
+      speaker: rule.speaker,
+      enabled: rule.enabled,
+      ...body,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid alert rule",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: {
+        name: parsed.data.name,
+        type: parsed.data.type,
+        patterns: parsed.data.patterns,
+        speaker: parsed.data.speaker ?? null,
+        enabled: parsed.data.enabled,
+      },
+    });
+
+    return NextResponse.json({ rule: updated });
+  } catch (error) {
+    console.error("Error updating alert rule:", error);
+    return NextResponse.json({ error: "Failed to update alert rule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const { ruleId } = await params;
+    const { error } = await getOwnedRule(ruleId);
+    if (error) return error;
+
+    // past matches stay on the session timeline as RecordingEvents
+    await prisma.alertRule.delete({ where: { id: ruleId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting alert rule:", error);
+    return NextResponse.json({ error: "Failed to delete alert rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { AlertRuleInputSchema } from "@/../server/schemas/transcript.schema";
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rules = await prisma.alertRule.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error listing alert rules:", error);
+    return NextResponse.json({ error: "Failed to list alert rules" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = AlertRuleInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid alert rule",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        userId: session.user.id,
+        name: parsed.data.name,
+        type: parsed.data.type,
+        patterns: parsed.data.patterns,
+        speaker: parsed.data.speaker ?? null,
+        enabled: parsed.data.enabled,
+      },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating alert rule:", error);
+    return NextResponse.json({ error: "Failed to create alert rule" }, { status: 500 });
+  }
+}
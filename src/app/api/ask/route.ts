@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { AskRequestSchema } from "@/../server/schemas/transcript.schema";
+import { answerQuestion } from "@/../server/processors/ask";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = AskRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid question",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { question, limit, sessionIds } = parsed.data;
+    const result = await answerQuestion(session.user.id, question, { limit, sessionIds });
+
+    return NextResponse.json({ question, ...result });
+  } catch (error) {
+    console.error("Error answering question:", error);
+    return NextResponse.json({ error: "Failed to answer question" }, { status: 500 });
+  }
+}
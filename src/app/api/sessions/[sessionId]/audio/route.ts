@@ -1,91 +1,136 @@
 import { NextRequest, NextResponse } from "next/server";
-import { PrismaClient } from "@prisma/client";
-import * as fs from "fs";
-import * as path from "path";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import { getStitchedAudio } from "@/../server/utils/sessionAudio";
 
-const prisma = new PrismaClient();
+// still capturing audio, the stitched file would be outdated right away
+const RECORDING_STATUSES = ["recording", "paused", "interrupted"];
 
+/**
+ * Parse a single-range Range header ("bytes=0-99", "bytes=100-", "bytes=-500")
+ *
+ * @returns Inclusive byte range, null when there's no usable header, "invalid" when unsatisfiable
+ */
+function parseRange(
+  header: string | null,
+  size: number
+): { start: number; end: number } | null | "invalid" {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) return null;
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === "") {
+    // suffix range, the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return "invalid";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) return "invalid";
+  return { start, end };
+}
+
+async function serveAudio(request: NextRequest, sessionId: string, includeBody: boolean) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const recordingSession = await prisma.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, status: true },
+  });
+
+  if (!recordingSession) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  if (recordingSession.userId !== session.user.id) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  if (RECORDING_STATUSES.includes(recordingSession.status)) {
+    return NextResponse.json({ error: "Session is still recording" }, { status: 409 });
+  }
+
+  const audio = await getStitchedAudio(sessionId);
+  if (!audio) {
+    return NextResponse.json({ error: "No audio available for this session" }, { status: 404 });
+  }
+
+  const baseHeaders = {
+    "Content-Type": "audio/webm",
+    "Accept-Ranges": "bytes",
+    "Content-Disposition": `inline; filename="session_${sessionId}.webm"`,
+    "Last-Modified": audio.modifiedAt.toUTCString(),
+    // late chunks re-stitch the file, so always revalidate
+    "Cache-Control": "private, no-cache",
+  };
+
+  const range = parseRange(request.headers.get("range"), audio.size);
+
+  if (range === "invalid") {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...baseHeaders, "Content-Range": `bytes */${audio.size}` },
+    });
+  }
+
+  const { start, end } = range ?? { start: 0, end: audio.size - 1 };
+  const body = includeBody
+    ? (Readable.toWeb(createReadStream(audio.path, { start, end })) as ReadableStream)
+    : null;
+
+  return new NextResponse(body, {
+    status: range ? 206 : 200,
+    headers: {
+      ...baseHeaders,
+      "Content-Length": (end - start + 1).toString(),
+      ...(range && { "Content-Range": `bytes ${start}-${end}/${audio.size}` }),
+    },
+  });
+}
+
+/**
+ * Stitched session audio, streamed with Range / 206 Partial Content support
+ * The file is stitched once after finalization and re-stitched when late chunks arrive
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
   try {
     const { sessionId } = await params;
-
-    const session = await prisma.recordingSession.findUnique({
-      where: { id: sessionId },
-      include: {
-        chunks: {
-          orderBy: { seq: "asc" },
-          select: {
-            id: true,
-            seq: true,
-            audioPath: true,
-            durationMs: true,
-          },
-        },
-      },
-    });
-
-    if (!session) {
-      return NextResponse.json({ error: "Session not found" }, { status: 404 });
-    }
-
-    if (session.chunks.length === 0) {
-      return NextResponse.json(
-        { error: "No audio chunks found for this session" },
-        { status: 404 }
-      );
-    }
-
-    const chunkBuffers: Buffer[] = [];
-    let totalSize = 0;
-    let missingChunks: number[] = [];
-
-    for (const chunk of session.chunks) {
-      try {
-        if (!fs.existsSync(chunk.audioPath)) {
-          missingChunks.push(chunk.seq);
-          continue;
-        }
-
-        const buffer = await fs.promises.readFile(chunk.audioPath);
-        chunkBuffers.push(buffer);
-        totalSize += buffer.length;
-      } catch (error) {
-        console.error(`Failed to read chunk ${chunk.seq}:`, error);
-        missingChunks.push(chunk.seq);
-      }
-    }
-
-    if (chunkBuffers.length === 0) {
-      return NextResponse.json(
-        {
-          error: "No audio data available",
-          missingChunks,
-        },
-        { status: 404 }
-      );
-    }
-
-    const combinedBuffer = Buffer.concat(chunkBuffers);
-
-    return new NextResponse(combinedBuffer, {
-      status: 200,
-      headers: {
-        "Content-Type": "audio/webm",
-        "Content-Length": combinedBuffer.length.toString(),
-        "Content-Disposition": `inline; filename="session_${sessionId}.webm"`,
-        "Cache-Control": "public, max-age=31536000",
-        "X-Total-Chunks": session.chunks.length.toString(),
-        "X-Available-Chunks": chunkBuffers.length.toString(),
-        ...(missingChunks.length > 0 && {
-          "X-Missing-Chunks": missingChunks.join(","),
-        }),
-      },
-    });
+    return await serveAudio(request, sessionId, true);
   } catch (error) {
     console.error("Failed to serve audio:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
 }
+
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    return await serveAudio(request, sessionId, false);
+  } catch (error) {
+    console.error("Failed to check audio:", error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { RetranscribeOverridesSchema } from "@/../server/schemas/transcript.schema";
+import { transcriptionQueue } from "@/../server/queues/postgres-queue";
+import {
+  checkEngineOverride,
+  listChunkTranscriptVersions,
+  queueRetranscription,
+} from "@/../server/utils/retranscription";
+
+// sessions still recording or processing keep their own transcription going
+const RETRANSCRIBABLE_STATUSES = ["completed", "failed"];
+
+async function getOwnedChunk(sessionId: string, rawSeq: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const seq = Number(rawSeq);
+  if (!Number.isInteger(seq) || seq < 0) {
+    return { error: NextResponse.json({ error: "Invalid chunk sequence" }, { status: 400 }) };
+  }
+
+  const recordingSession = await prisma.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, status: true, engine: true },
+  });
+
+  if (!recordingSession) {
+    return { error: NextResponse.json({ error: "Session not found" }, { status: 404 }) };
+  }
+
+  if (recordingSession.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  const chunk = await prisma.transcriptChunk.findUnique({
+    where: { sessionId_seq: { sessionId, seq } },
+    select: { id: true, seq: true, status: true },
+  });
+
+  if (!chunk) {
+    return { error: NextResponse.json({ error: "Chunk not found" }, { status: 404 }) };
+  }
+
+  return { recordingSession, chunk };
+}
+
+/**
+ * Earlier transcripts of the chunk, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; seq: string }> }
+) {
+  try {
+    const { sessionId, seq } = await params;
+    const { chunk, error } = await getOwnedChunk(sessionId, seq);
+    if (error) return error;
+
+    const versions = await listChunkTranscriptVersions(chunk.id);
+
+    return NextResponse.json({ seq: chunk.seq, status: chunk.status, versions });
+  } catch (error) {
+    console.error("Error listing chunk transcript versions:", error);
+    return NextResponse.json({ error: "Failed to list transcript versions" }, { status: 500 });
+  }
+}
+
+/**
+ * Retry or re-transcribe one chunk with optional engine, model, language,
+ * diarization and filter overrides, then rebuild the transcript and summary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; seq: string }> }
+) {
+  try {
+    const { sessionId, seq } = await params;
+    const { recordingSession, chunk, error } = await getOwnedChunk(sessionId, seq);
+    if (error) return error;
+
+    if (!RETRANSCRIBABLE_STATUSES.includes(recordingSession.status)) {
+      return NextResponse.json(
+        { error: `Session is ${recordingSession.status}, wait for it to finish processing` },
+        { status: 409 }
+      );
+    }
+
+    const parsed = RetranscribeOverridesSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid re-transcription options",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const overrideError = await checkEngineOverride(recordingSession, parsed.data);
+    if (overrideError) {
+      return NextResponse.json({ error: overrideError }, { status: 400 });
+    }
+
+    if ((await transcriptionQueue.countActive(sessionId)) > 0) {
+      return NextResponse.json(
+        { error: "Chunks of this session are already being transcribed" },
+        { status: 409 }
+      );
+    }
+
+    const [jobId] = await queueRetranscription(sessionId, [chunk.seq], parsed.data);
+
+    return NextResponse.json({ jobId, seq: chunk.seq, status: "queued" }, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing chunk re-transcription:", error);
+    return NextResponse.json({ error: "Failed to queue re-transcription" }, { status: 500 });
+  }
+}
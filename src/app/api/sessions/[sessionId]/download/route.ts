@@ -1,87 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma as db } from "@/lib/db";
-import * as path from "path";
-import * as fs from "fs/promises";
-
-function exportTranscript(
-  chunks: Array<{ seq: number; text: string | null; speaker: string | null; createdAt: Date }>,
-  format: "txt" | "srt" | "vtt"
-): string {
-  if (format === "txt") {
-    return chunks
-      .filter((c) => c.text)
-      .map((c) => {
-        const speaker = c.speaker || "Unknown";
-        return `[${speaker}]: ${c.text}`;
-      })
-      .join("\n\n");
-  }
-
-  if (format === "srt") {
-    let srtContent = "";
-    let index = 1;
-    let cumulativeTime = 0;
-
-    chunks.forEach((chunk) => {
-      if (!chunk.text) return;
-
-      const startTime = cumulativeTime;
-      const endTime = startTime + 30000;
-      cumulativeTime = endTime;
-
-      const startSrt = formatSrtTime(startTime);
-      const endSrt = formatSrtTime(endTime);
-
-      srtContent += `${index}\n${startSrt} --> ${endSrt}\n${chunk.text}\n\n`;
-      index++;
-    });
-
-    return srtContent;
-  }
-
-  if (format === "vtt") {
-    let vttContent = "WEBVTT\n\n";
-    let cumulativeTime = 0;
-
-    chunks.forEach((chunk) => {
-      if (!chunk.text) return;
-
-      const startTime = cumulativeTime;
-      const endTime = startTime + 30000;
-      cumulativeTime = endTime;
-
-      const startVtt = formatVttTime(startTime);
-      const endVtt = formatVttTime(endTime);
-
-      const speaker = chunk.speaker || "Unknown";
-      vttContent += `${startVtt} --> ${endVtt}\n<v ${speaker}>${chunk.text}\n\n`;
-    });
-
-    return vttContent;
-  }
-
-  return "";
-}
-
-function formatSrtTime(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  const milliseconds = ms % 1000;
-
-  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")},${milliseconds.toString().padStart(3, "0")}`;
-}
-
-function formatVttTime(ms: number): string {
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-  const milliseconds = ms % 1000;
-
-  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${milliseconds.toString().padStart(3, "0")}`;
-}
+import {
+  exportTranscript,
+  ExportFormat,
+  fromAggregatedTranscript,
+  getMimeType,
+} from "@/../server/utils/exportFormats";
+import { mergeChunkTranscripts } from "@/../server/utils/transcriptAggregation";
 
 export async function GET(req: NextRequest, { params }: { params: { sessionId: string } }) {
   try {
@@ -110,6 +35,8 @@ export async function GET(req: NextRequest, { params }: { params: { sessionId: s
       );
     }
 
+    const aggregated = await mergeChunkTranscripts(sessionId);
+
     if (format === "json") {
       const data = {
         sessionId: session.id,
@@ -118,6 +45,7 @@ export async function GET(req: NextRequest, { params }: { params: { sessionId: s
         endedAt: session.endedAt,
         transcript: session.transcript,
         summary: session.summaryJSON,
+        segments: aggregated.segments,
         chunks: session.chunks.map((chunk) => ({
           sequence: chunk.seq,
           text: chunk.text,
@@ -135,18 +63,15 @@ export async function GET(req: NextRequest, { params }: { params: { sessionId: s
       });
     }
 
-    const exportedContent = exportTranscript(session.chunks, format as any);
-
-    const mimeTypes = {
-      txt: "text/plain",
-      srt: "application/x-subrip",
-      vtt: "text/vtt",
-    };
+    const exportedContent = exportTranscript(
+      fromAggregatedTranscript(aggregated, session),
+      format as ExportFormat
+    );
 
     return new NextResponse(exportedContent, {
       headers: {
         "Content-Disposition": `attachment; filename="transcript_${sessionId}.${format}"`,
-        "Content-Type": mimeTypes[format as keyof typeof mimeTypes],
+        "Content-Type": getMimeType(format as ExportFormat),
       },
     });
   } catch (error) {
@@ -1,6 +1,17 @@
 import { NextResponse } from "next/server";
 import { prisma as db } from "@/lib/db";
-import { exportTranscript, ExportFormat, getMimeType } from "@/../server/utils/exportFormats";
+import {
+  exportTranscript,
+  ExportFormat,
+  fromAggregatedTranscript,
+  getMimeType,
+} from "@/../server/utils/exportFormats";
+import {
+  getPlaybackTimeline,
+  mergeChunkTranscripts,
+} from "@/../server/utils/transcriptAggregation";
+import { getBookmarks } from "@/../server/utils/bookmarks";
+import { audioToSessionMs } from "@/lib/playbackTimeline";
 
 export async function GET(req: Request, { params }: { params: { sessionId: string } }) {
   const { sessionId } = params;
@@ -10,37 +21,26 @@ export async function GET(req: Request, { params }: { params: { sessionId: strin
   try {
     const session = await db.recordingSession.findUnique({
       where: { id: sessionId },
-      include: {
-        chunks: {
-          orderBy: { seq: "asc" },
-        },
-      },
     });
 
     if (!session) {
       return NextResponse.json({ error: "Session not found" }, { status: 404 });
     }
 
-    const transcript = {
-      sessionId: session.id,
-      title: session.title || `Recording ${session.id.slice(0, 8)}`,
-      segments: session.chunks.map((chunk) => ({
-        seq: chunk.seq,
-        text: chunk.text || "",
-        speaker: chunk.speaker,
-        startTimeMs: chunk.seq * 5000,
-        endTimeMs: (chunk.seq + 1) * 5000,
-        confidence: chunk.confidence === null ? undefined : chunk.confidence,
-      })),
-      speakers: Array.from(
-        new Set(session.chunks.map((c) => c.speaker).filter(Boolean))
-      ) as string[],
-      summary: session.summaryJSON as any,
-      metadata: {
-        duration: session.chunks.length * 5,
-        createdAt: session.createdAt.toISOString(),
-      },
-    };
+    const [aggregated, bookmarks, timeline] = await Promise.all([
+      mergeChunkTranscripts(sessionId),
+      getBookmarks(sessionId),
+      getPlaybackTimeline(sessionId),
+    ]);
+    // exports use the session timeline, bookmarks are stored as audio positions
+    const transcript = fromAggregatedTranscript(
+      aggregated,
+      session,
+      bookmarks.map((bookmark) => ({
+        ...bookmark,
+        offsetMs: audioToSessionMs(timeline, bookmark.offsetMs),
+      }))
+    );
     const content = exportTranscript(transcript, format);
     const mimeType = getMimeType(format);
     const filename = `transcript-${sessionId.slice(0, 8)}.${format}`;
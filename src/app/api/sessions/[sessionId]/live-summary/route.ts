@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getLiveSummary } from "@/../server/processors/liveSummary";
+
+/**
+ * Rolling summary and action items of a session so far, null until the first update
+ * Later updates arrive as live-summary-updated events in the session:<id> room
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+
+    if (!recordingSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (recordingSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ liveSummary: await getLiveSummary(sessionId) });
+  } catch (error) {
+    console.error("Error fetching live summary:", error);
+    return NextResponse.json({ error: "Failed to fetch live summary" }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { SessionRetranscribeSchema } from "@/../server/schemas/transcript.schema";
+import { transcriptionQueue } from "@/../server/queues/postgres-queue";
+import { checkEngineOverride, queueRetranscription } from "@/../server/utils/retranscription";
+
+// sessions still recording or processing keep their own transcription going
+const RETRANSCRIBABLE_STATUSES = ["completed", "failed"];
+
+/**
+ * Re-transcribe every chunk of a session (or only the failed ones) with optional overrides
+ * Current transcripts are kept as chunk versions, progress goes to the session:<id> room
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, status: true, engine: true },
+    });
+
+    if (!recordingSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (recordingSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!RETRANSCRIBABLE_STATUSES.includes(recordingSession.status)) {
+      return NextResponse.json(
+        { error: `Session is ${recordingSession.status}, wait for it to finish processing` },
+        { status: 409 }
+      );
+    }
+
+    const parsed = SessionRetranscribeSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid re-transcription options",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { onlyFailed, ...overrides } = parsed.data;
+
+    const overrideError = await checkEngineOverride(recordingSession, overrides);
+    if (overrideError) {
+      return NextResponse.json({ error: overrideError }, { status: 400 });
+    }
+
+    if ((await transcriptionQueue.countActive(sessionId)) > 0) {
+      return NextResponse.json(
+        { error: "Chunks of this session are already being transcribed" },
+        { status: 409 }
+      );
+    }
+
+    const chunks = await prisma.transcriptChunk.findMany({
+      where: { sessionId, ...(onlyFailed ? { status: "failed" } : {}) },
+      orderBy: { seq: "asc" },
+      select: { seq: true },
+    });
+
+    if (chunks.length === 0) {
+      return NextResponse.json(
+        { error: onlyFailed ? "Session has no failed chunks" : "Session has no chunks" },
+        { status: 409 }
+      );
+    }
+
+    const sequences = chunks.map((chunk) => chunk.seq);
+    const jobIds = await queueRetranscription(sessionId, sequences, overrides);
+
+    return NextResponse.json({ jobIds, sequences, status: "queued" }, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing session re-transcription:", error);
+    return NextResponse.json({ error: "Failed to queue re-transcription" }, { status: 500 });
+  }
+}
@@ -2,6 +2,26 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
+import {
+  getPlaybackTimeline,
+  mergeChunkTranscripts,
+} from "@/../server/utils/transcriptAggregation";
+import { getSessionSpeakers } from "@/../server/utils/speakers";
+
+const ATTEMPT_SELECT = {
+  attempt: true,
+  status: true,
+  engine: true,
+  model: true,
+  errorClass: true,
+  errorMessage: true,
+  conversionMs: true,
+  transcriptionMs: true,
+  totalMs: true,
+  inputTokens: true,
+  outputTokens: true,
+  createdAt: true,
+} as const;
 
 export async function GET(
   request: NextRequest,
@@ -50,14 +70,43 @@ export async function GET(
         seq: true,
         audioPath: true,
         durationMs: true,
+        startOffsetMs: true,
         text: true,
         speaker: true,
         confidence: true,
         status: true,
         createdAt: true,
+        attempts: {
+          orderBy: { attempt: "asc" },
+          select: ATTEMPT_SELECT,
+        },
+      },
+    });
+
+    // every failed chunk regardless of page, with the reason of its latest attempt
+    const failedChunks = await prisma.transcriptChunk.findMany({
+      where: { sessionId, status: "failed" },
+      orderBy: { seq: "asc" },
+      select: {
+        seq: true,
+        attempts: { orderBy: { attempt: "desc" }, take: 1, select: ATTEMPT_SELECT },
       },
     });
 
+    const [aggregated, speakers, timeline, words] = await Promise.all([
+      mergeChunkTranscripts(sessionId),
+      getSessionSpeakers(sessionId),
+      getPlaybackTimeline(sessionId),
+      // word timings for click-to-seek, only engines that report them fill these
+      prisma.transcriptWord.findMany({
+        where: {
+          segment: { sessionId, OR: [{ chunkId: null }, { chunk: { status: "transcribed" } }] },
+        },
+        orderBy: [{ startMs: "asc" }, { index: "asc" }],
+        select: { word: true, startMs: true, endMs: true },
+      }),
+    ]);
+
     const duration =
       recordingSession.endedAt && recordingSession.startedAt
         ? Math.floor(
@@ -74,17 +123,23 @@ export async function GET(
       duration,
       transcript: recordingSession.transcript,
       summaryJSON: recordingSession.summaryJSON,
+      segments: aggregated.segments,
+      words,
+      timeline,
+      speakers,
       chunks: {
         items: chunks.map((chunk) => ({
           id: chunk.id,
           seq: chunk.seq,
           audioPath: chunk.audioPath,
           durationMs: chunk.durationMs,
+          startOffsetMs: chunk.startOffsetMs,
           text: chunk.text,
           speaker: chunk.speaker,
           confidence: chunk.confidence,
           status: chunk.status,
           createdAt: chunk.createdAt.toISOString(),
+          attempts: chunk.attempts,
         })),
         pagination: {
           page,
@@ -93,6 +148,11 @@ export async function GET(
           totalPages: Math.ceil(recordingSession._count.chunks / limit),
         },
       },
+      failedChunks: failedChunks.map((chunk) => ({
+        seq: chunk.seq,
+        attempts: chunk.attempts[0]?.attempt ?? 0,
+        lastAttempt: chunk.attempts[0] ?? null,
+      })),
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { SpeakerUpdateSchema } from "@/../server/schemas/transcript.schema";
+import { getSessionSpeakers, resolveSpeakerLabel } from "@/../server/utils/speakers";
+
+/**
+ * Rename a speaker label and/or merge it into another label
+ * Only the Speaker row changes, segment and chunk text stay as transcribed
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; label: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId, label: rawLabel } = await params;
+    const label = decodeURIComponent(rawLabel);
+
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+
+    if (!recordingSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (recordingSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const parsed = SpeakerUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid speaker update",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, mergeInto } = parsed.data;
+
+    const rows = await prisma.speaker.findMany({
+      where: { sessionId },
+      select: { label: true, name: true, mergedInto: true },
+    });
+
+    if (!rows.some((row) => row.label === label)) {
+      return NextResponse.json({ error: "Speaker not found" }, { status: 404 });
+    }
+
+    if (mergeInto) {
+      if (!rows.some((row) => row.label === mergeInto)) {
+        return NextResponse.json({ error: "Merge target not found" }, { status: 404 });
+      }
+
+      // merging into self, or into a label that already resolves back here, would loop
+      if (resolveSpeakerLabel(rows, mergeInto) === label) {
+        return NextResponse.json({ error: "Cannot merge a speaker into itself" }, { status: 400 });
+      }
+    }
+
+    await prisma.speaker.update({
+      where: { sessionId_label: { sessionId, label } },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(mergeInto !== undefined && { mergedInto: mergeInto }),
+      },
+    });
+
+    console.log(
+      `[Speakers] updated ${label} in ${sessionId}: name=${name ?? "-"}, mergeInto=${mergeInto ?? "-"}`
+    );
+
+    return NextResponse.json({ speakers: await getSessionSpeakers(sessionId) });
+  } catch (error) {
+    console.error("Error updating speaker:", error);
+    return NextResponse.json({ error: "Failed to update speaker" }, { status: 500 });
+  }
+}
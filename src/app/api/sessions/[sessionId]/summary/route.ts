@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { SummaryRegenerateSchema } from "@/../server/schemas/transcript.schema";
+import { findSummaryTemplate } from "@/../server/utils/summaryTemplates";
+import { activateSummaryVersion, listSummaryVersions } from "@/../server/utils/summaryVersions";
+import { getLatestSummaryJob, queueSummaryRegeneration } from "@/../server/workers/summary.worker";
+
+const ActivateVersionSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+async function getOwnedSession(sessionId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  const recordingSession = await prisma.recordingSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, userId: true, status: true, engine: true },
+  });
+
+  if (!recordingSession) {
+    return { error: NextResponse.json({ error: "Session not found" }, { status: 404 }) };
+  }
+
+  if (recordingSession.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { recordingSession };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { error } = await getOwnedSession(sessionId);
+    if (error) return error;
+
+    const [versions, job] = await Promise.all([
+      listSummaryVersions(sessionId),
+      getLatestSummaryJob(sessionId),
+    ]);
+
+    return NextResponse.json({ versions, job });
+  } catch (error) {
+    console.error("Error listing summary versions:", error);
+    return NextResponse.json({ error: "Failed to list summary versions" }, { status: 500 });
+  }
+}
+
+/**
+ * Queue a summary regeneration with a template and SummaryOptions, stored as a new version
+ * Poll GET for the job status until the new version shows up
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { recordingSession, error } = await getOwnedSession(sessionId);
+    if (error) return error;
+
+    if (recordingSession.status !== "completed") {
+      return NextResponse.json(
+        {
+          error: `Session is ${recordingSession.status}, summaries can be regenerated once it completes`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const parsed = SummaryRegenerateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid summary options",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { templateId, ...options } = parsed.data;
+
+    if (templateId && !(await findSummaryTemplate(templateId, recordingSession.userId))) {
+      return NextResponse.json(
+        { error: `Unknown summary template: ${templateId}` },
+        { status: 400 }
+      );
+    }
+
+    const pending = await getLatestSummaryJob(sessionId);
+    if (pending && (pending.status === "queued" || pending.status === "running")) {
+      return NextResponse.json(
+        { error: "A summary is already being generated for this session", job: pending },
+        { status: 409 }
+      );
+    }
+
+    const jobId = await queueSummaryRegeneration(sessionId, templateId, options);
+
+    return NextResponse.json({ jobId, status: "queued" }, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing summary regeneration:", error);
+    return NextResponse.json({ error: "Failed to queue summary regeneration" }, { status: 500 });
+  }
+}
+
+/**
+ * Switch which stored version is shown as the session's summary
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const { error } = await getOwnedSession(sessionId);
+    if (error) return error;
+
+    const parsed = ActivateVersionSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Provide the version to activate" }, { status: 400 });
+    }
+
+    const summary = await activateSummaryVersion(sessionId, parsed.data.version);
+    if (!summary) {
+      return NextResponse.json({ error: "Summary version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ version: parsed.data.version, summary });
+  } catch (error) {
+    console.error("Error switching summary version:", error);
+    return NextResponse.json({ error: "Failed to switch summary version" }, { status: 500 });
+  }
+}
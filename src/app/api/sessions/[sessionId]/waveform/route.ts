@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getSpeakerTurns, getWaveform } from "@/../server/utils/waveform";
+
+// still capturing audio, there is no stitched file to analyse yet
+const RECORDING_STATUSES = ["recording", "paused", "interrupted"];
+
+/**
+ * Waveform peaks of the stitched session audio with speaker turns and silent regions
+ * Every offset is audio time (pauses excluded) so it lines up with the audio route
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+
+    const recordingSession = await prisma.recordingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, status: true },
+    });
+
+    if (!recordingSession) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    if (recordingSession.userId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (RECORDING_STATUSES.includes(recordingSession.status)) {
+      return NextResponse.json({ error: "Session is still recording" }, { status: 409 });
+    }
+
+    const [waveform, turns] = await Promise.all([
+      getWaveform(sessionId),
+      getSpeakerTurns(sessionId),
+    ]);
+
+    if (!waveform) {
+      return NextResponse.json({ error: "No audio available for this session" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { ...waveform, turns },
+      { headers: { "Cache-Control": "private, no-cache" } }
+    );
+  } catch (error) {
+    console.error("Error fetching waveform:", error);
+    return NextResponse.json({ error: "Failed to fetch waveform" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { searchSessions } from "@/../server/utils/search";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get("q") || "").trim();
+    const requestedPage = parseInt(searchParams.get("page") || "1", 10);
+    const requestedLimit = parseInt(searchParams.get("limit") || "10", 10);
+
+    if (!query) {
+      return NextResponse.json({ error: "Missing search query" }, { status: 400 });
+    }
+
+    if (query.length > 200) {
+      return NextResponse.json({ error: "Search query too long" }, { status: 400 });
+    }
+
+    // searchSessions clamps both, report the values it paged with
+    const { results, total, page, limit } = await searchSessions(session.user.id, query, {
+      page: requestedPage,
+      limit: requestedLimit,
+    });
+
+    return NextResponse.json({
+      query,
+      results,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error searching sessions:", error);
+    return NextResponse.json({ error: "Failed to search sessions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { SummaryTemplateInputSchema } from "@/../server/schemas/transcript.schema";
+import { isBuiltInSummaryTemplate } from "@/../server/utils/summaryTemplates";
+
+async function getOwnedTemplate(templateId: string) {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (isBuiltInSummaryTemplate(templateId)) {
+    return {
+      error: NextResponse.json({ error: "Built-in templates can't be changed" }, { status: 400 }),
+    };
+  }
+
+  const template = await prisma.summaryTemplate.findUnique({
+    where: { id: templateId },
+  });
+
+  if (!template) {
+    return { error: NextResponse.json({ error: "Template not found" }, { status: 404 }) };
+  }
+
+  if (template.userId !== session.user.id) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { template };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const { template, error } = await getOwnedTemplate(templateId);
+    if (error) return error;
+
+    const parsed = SummaryTemplateInputSchema.partial().safeParse(
+      await request.json().catch(() => null)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid summary template",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, prompt, fields } = parsed.data;
+
+    // summaries record the version they were made with, so output changes bump it
+    const changesOutput =
+      (prompt !== undefined && prompt !== template.prompt) ||
+      (fields !== undefined && JSON.stringify(fields) !== JSON.stringify(template.fields));
+
+    const updated = await prisma.summaryTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(prompt !== undefined && { prompt }),
+        ...(fields !== undefined && { fields }),
+        ...(changesOutput && { version: { increment: 1 } }),
+      },
+    });
+
+    return NextResponse.json({ template: { ...updated, builtIn: false } });
+  } catch (error) {
+    console.error("Error updating summary template:", error);
+    return NextResponse.json({ error: "Failed to update summary template" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const { error } = await getOwnedTemplate(templateId);
+    if (error) return error;
+
+    // sessions keep the id, summarizing them later falls back to the general template
+    await prisma.summaryTemplate.delete({ where: { id: templateId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting summary template:", error);
+    return NextResponse.json({ error: "Failed to delete summary template" }, { status: 500 });
+  }
+}
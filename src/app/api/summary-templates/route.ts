@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { SummaryTemplateInputSchema } from "@/../server/schemas/transcript.schema";
+import { listSummaryTemplates } from "@/../server/utils/summaryTemplates";
+
+export async function GET() {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const templates = await listSummaryTemplates(session.user.id);
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error listing summary templates:", error);
+    return NextResponse.json({ error: "Failed to list summary templates" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = SummaryTemplateInputSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid summary template",
+          details: parsed.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.summaryTemplate.create({
+      data: {
+        userId: session.user.id,
+        name: parsed.data.name,
+        description: parsed.data.description ?? null,
+        prompt: parsed.data.prompt,
+        fields: parsed.data.fields,
+      },
+    });
+
+    return NextResponse.json({ template: { ...template, builtIn: false } }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating summary template:", error);
+    return NextResponse.json({ error: "Failed to create summary template" }, { status: 500 });
+  }
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { Clock, FileAudio, CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+import { Clock, FileAudio, CheckCircle, AlertCircle, Loader2, Search, X } from "lucide-react";
 
 interface SessionPreview {
   id: string;
@@ -15,6 +15,33 @@ interface SessionPreview {
   hasTranscript: boolean;
 }
 
+interface SearchResult {
+  id: string;
+  title: string;
+  titleHighlight: string;
+  status: string;
+  startedAt: string;
+  snippet: string | null;
+  hits: Array<{ seq: number; offsetMs: number; snippet: string }>;
+}
+
+// search snippets mark matches with <mark>, render them without injecting html
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+        part.startsWith("<mark>") ? (
+          <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
 interface Pagination {
   page: number;
   limit: number;
@@ -29,10 +56,42 @@ export default function HistoryPage() {
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
 
   useEffect(() => {
-    fetchSessions();
-  }, [currentPage, statusFilter]);
+    if (searchQuery) {
+      searchSessions();
+    } else {
+      fetchSessions();
+    }
+  }, [currentPage, statusFilter, searchQuery]);
+
+  const searchSessions = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        q: searchQuery,
+        page: currentPage.toString(),
+        limit: "10",
+      });
+
+      const response = await fetch(`/api/sessions/search?${params}`);
+      if (!response.ok) {
+        throw new Error("Search failed");
+      }
+
+      const data = await response.json();
+      setSearchResults(data.results);
+      setPagination(data.pagination);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const fetchSessions = async () => {
     try {
@@ -98,6 +157,7 @@ export default function HistoryPage() {
       processing: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
       recording: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
       paused: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+      interrupted: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
       failed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
     };
 
@@ -123,26 +183,61 @@ export default function HistoryPage() {
             View and manage your past recording sessions
           </p>
         </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearchQuery(searchInput.trim());
+            setCurrentPage(1);
+          }}
+          className="mb-4 flex items-center gap-2"
+        >
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search titles, transcripts and summaries..."
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500"
+            />
+          </div>
+          {searchQuery && (
+            <button
+              type="button"
+              onClick={() => {
+                setSearchInput("");
+                setSearchQuery("");
+                setCurrentPage(1);
+              }}
+              className="p-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </form>
 
-        <div className="mb-6 flex items-center gap-4">
-          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            Filter by status:
-          </label>
-          <select
-            value={statusFilter}
-            onChange={(e) => {
-              setStatusFilter(e.target.value);
-              setCurrentPage(1);
-            }}
-            className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500"
-          >
-            <option value="all">All Sessions</option>
-            <option value="completed">Completed</option>
-            <option value="processing">Processing</option>
-            <option value="recording">Recording</option>
-            <option value="paused">Paused</option>
-          </select>
-        </div>
+        {!searchQuery && (
+          <div className="mb-6 flex items-center gap-4">
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Filter by status:
+            </label>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-brand-500"
+            >
+              <option value="all">All Sessions</option>
+              <option value="completed">Completed</option>
+              <option value="processing">Processing</option>
+              <option value="recording">Recording</option>
+              <option value="paused">Paused</option>
+              <option value="interrupted">Interrupted</option>
+            </select>
+          </div>
+        )}
 
 \        {loading && (
           <div className="flex items-center justify-center py-12">
@@ -156,7 +251,65 @@ export default function HistoryPage() {
           </div>
         )}
 
-        {!loading && !error && sessions.length === 0 && (
+        {!loading && !error && searchQuery && searchResults.length === 0 && (
+          <div className="text-center py-12">
+            <Search className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+              No matches for &ldquo;{searchQuery}&rdquo;
+            </h3>
+          </div>
+        )}
+
+        {!loading && !error && searchQuery && searchResults.length > 0 && (
+          <div className="space-y-4">
+            {searchResults.map((result) => (
+              <div
+                key={result.id}
+                className="p-6 rounded-lg bg-white dark:bg-gray-800 shadow-md border border-gray-200 dark:border-gray-700"
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <Link
+                    href={`/sessions/${result.id}`}
+                    className="text-lg font-semibold text-gray-900 dark:text-white hover:underline"
+                  >
+                    <Highlighted text={result.titleHighlight} />
+                  </Link>
+                  {getStatusBadge(result.status)}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                  {formatDate(result.startedAt)}
+                </div>
+                {result.hits.length > 0 ? (
+                  <ul className="space-y-2">
+                    {result.hits.map((hit) => (
+                      <li key={hit.seq}>
+                        <Link
+                          href={`/sessions/${result.id}?t=${hit.offsetMs}&seq=${hit.seq}`}
+                          className="flex gap-3 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded p-1"
+                        >
+                          <span className="shrink-0 font-mono text-brand-500">
+                            {formatDuration(Math.floor(hit.offsetMs / 1000))}
+                          </span>
+                          <span>
+                            <Highlighted text={hit.snippet} />
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  result.snippet && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      <Highlighted text={result.snippet} />
+                    </p>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && !error && !searchQuery && sessions.length === 0 && (
           <div className="text-center py-12">
             <FileAudio className="w-16 h-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
@@ -174,7 +327,7 @@ export default function HistoryPage() {
           </div>
         )}
 
-        {!loading && !error && sessions.length > 0 && (
+        {!loading && !error && !searchQuery && sessions.length > 0 && (
           <>
             <div className="space-y-4">
               {sessions.map((session) => (
@@ -214,30 +367,30 @@ export default function HistoryPage() {
                 </Link>
               ))}
             </div>
-
-            {pagination && pagination.totalPages > 1 && (
-              <div className="mt-8 flex items-center justify-center gap-2">
-                <button
-                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                  disabled={currentPage === 1}
-                  className="px-4 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-700"
-                >
-                  Previous
-                </button>
-                <span className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
-                  Page {pagination.page} of {pagination.totalPages}
-                </span>
-                <button
-                  onClick={() => setCurrentPage((p) => Math.min(pagination.totalPages, p + 1))}
-                  disabled={currentPage === pagination.totalPages}
-                  className="px-4 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-700"
-                >
-                  Next
-                </button>
-              </div>
-            )}
           </>
         )}
+
+        {!loading && !error && pagination && pagination.totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-center gap-2">
+            <button
+              onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+              disabled={currentPage === 1}
+              className="px-4 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Previous
+            </button>
+            <span className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage((p) => Math.min(pagination.totalPages, p + 1))}
+              disabled={currentPage === pagination.totalPages}
+              className="px-4 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
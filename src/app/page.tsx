@@ -2,11 +2,14 @@
 
 import { useSession } from "@/lib/authClient";
 import { useRouter } from "next/navigation";
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { RecordingControls } from "@/components/RecordingControls";
 import { AudioPlayer } from "@/components/AudioPlayer";
 import { TranscriptView } from "@/components/TranscriptView";
+import { LiveSummaryPanel } from "@/components/LiveSummaryPanel";
+import { KeywordAlerts } from "@/components/KeywordAlerts";
 import { SessionCompletionCard } from "@/components/SessionCompletionCard";
+import { SummaryTemplateSelect } from "@/components/SummaryTemplateSelect";
 import { useAudioRecorder } from "@/hooks/useAudioRecorder";
 import { useSocket } from "@/hooks/useSocket";
 import { Wifi, WifiOff } from "lucide-react";
@@ -15,6 +18,11 @@ import { RetroSidebar } from "@/components/RetroSidebar";
 import { RetroHistoryWidget } from "@/components/RetroHistoryWidget";
 import AudioUpload from "@/components/AudioUpload";
 
+// short slices for provisional live text (2-5s), unset turns interim transcripts off
+const INTERIM_SLICE_MS = process.env.NEXT_PUBLIC_INTERIM_SLICE_MS
+  ? Math.min(5000, Math.max(2000, Number(process.env.NEXT_PUBLIC_INTERIM_SLICE_MS) || 0))
+  : 0;
+
 export default function Home() {
   const { data: session, isPending } = useSession();
   const router = useRouter();
@@ -30,14 +38,19 @@ export default function Home() {
   const latencySum = useRef(0);
   const latencyCount = useRef(0);
   const activeSessionIdRef = useRef<string | null>(null);
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [summaryTemplate, setSummaryTemplate] = useState("general");
 
   // Socket connection
   const {
+    socket,
     isConnected,
     queuedChunks,
     failedChunks,
     startSession,
     emitAudioChunk,
+    emitInterimSlice,
+    addBookmark,
     pauseSession,
     resumeSession,
     stopSession,
@@ -74,13 +87,32 @@ export default function Home() {
 
   const recorder = useAudioRecorder({
     chunkDuration: 30000, // 30 seconds for better efficiency
+    interimSliceMs: INTERIM_SLICE_MS,
+    onInterimSlice: (slice) => {
+      const currentSessionId = activeSessionIdRef.current;
+      if (currentSessionId) {
+        emitInterimSlice(
+          currentSessionId,
+          slice.sequence,
+          slice.index,
+          slice.timestamp,
+          slice.blob
+        );
+      }
+    },
     onChunk: (chunkData) => {
       setChunkCount(chunkData.sequence + 1);
       setBytesTransferred((prev) => prev + chunkData.blob.size);
 
       const currentSessionId = activeSessionIdRef.current;
       if (currentSessionId) {
-        emitAudioChunk(currentSessionId, chunkData.sequence, chunkData.timestamp, chunkData.blob);
+        emitAudioChunk(
+          currentSessionId,
+          chunkData.sequence,
+          chunkData.timestamp,
+          chunkData.elapsedMs,
+          chunkData.blob
+        );
       }
     },
     onStart: async () => {
@@ -88,7 +120,9 @@ export default function Home() {
 
       const newSessionId = await startSession(
         session.user.id,
-        `Recording ${new Date().toLocaleString()}`
+        `Recording ${new Date().toLocaleString()}`,
+        offlineMode ? "local" : undefined,
+        summaryTemplate
       );
 
       if (newSessionId) {
@@ -125,6 +159,17 @@ export default function Home() {
     },
   });
 
+  const { getPosition } = recorder;
+  const handleBookmark = useCallback(
+    (note?: string) => {
+      const position = getPosition();
+      if (sessionId && position) {
+        addBookmark(sessionId, position.offsetMs, position.sequence, note);
+      }
+    },
+    [sessionId, getPosition, addBookmark]
+  );
+
   if (isPending) {
     return (
       <div className="h-screen w-screen flex items-center justify-center bg-retro-bg">
@@ -193,7 +238,27 @@ export default function Home() {
                     onResume={recorder.resume}
                     onStop={recorder.stop}
                     onSourceChange={recorder.changeSource}
+                    onBookmark={sessionId ? handleBookmark : undefined}
                   />
+                  <label className="mt-4 flex items-center gap-2 text-xs font-bold uppercase">
+                    <input
+                      type="checkbox"
+                      checked={offlineMode}
+                      disabled={recorder.status !== "idle"}
+                      onChange={(e) => setOfflineMode(e.target.checked)}
+                      className="w-4 h-4 accent-black"
+                    />
+                    Offline mode (local whisper, audio never leaves the server)
+                  </label>
+                  <label className="mt-4 block text-xs font-bold uppercase">
+                    Summary template
+                    <SummaryTemplateSelect
+                      value={summaryTemplate}
+                      onChange={setSummaryTemplate}
+                      disabled={recorder.status !== "idle"}
+                      className="mt-1 normal-case"
+                    />
+                  </label>
                 </div>
                 {recorder.error && (
                   <div className="mt-4 p-4 bg-red-100 border-4 border-red-500 text-red-900 font-bold">
@@ -209,8 +274,18 @@ export default function Home() {
                     <span className="animate-pulse w-3 h-3 bg-red-500 rounded-full border border-black"></span>
                     LIVE FEED
                   </div>
-                  <div className="mt-4 h-[400px] overflow-hidden border-2 border-black dark:border-gray-700 bg-gray-50 dark:bg-black">
-                    <TranscriptView sessionId={sessionId} />
+                  <KeywordAlerts sessionId={sessionId} socket={socket} />
+                  <div className="mt-4 grid gap-4 lg:grid-cols-3">
+                    <div className="lg:col-span-2 h-[400px] overflow-hidden border-2 border-black dark:border-gray-700 bg-gray-50 dark:bg-black">
+                      <TranscriptView
+                        sessionId={sessionId}
+                        socket={socket}
+                        isConnected={isConnected}
+                      />
+                    </div>
+                    <div className="h-[400px] overflow-hidden border-2 border-black dark:border-gray-700 bg-white dark:bg-gray-900">
+                      <LiveSummaryPanel sessionId={sessionId} socket={socket} />
+                    </div>
                   </div>
                 </div>
               )}
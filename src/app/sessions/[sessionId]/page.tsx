@@ -1,9 +1,43 @@
 "use client";
 
-import { useEffect, useState, use } from "react";
-import { useRouter } from "next/navigation";
-import { ArrowLeft, Download, Clock, Calendar, Mic2, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState, use } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ArrowLeft, Download, Clock, Calendar, Mic2, Loader2, RotateCcw } from "lucide-react";
 import Link from "next/link";
+import { SpeakerEntry, SpeakerRoster } from "@/components/SpeakerRoster";
+import { SummaryVersions } from "@/components/SummaryVersions";
+import { AudioPlayer, AudioPlayerHandle } from "@/components/AudioPlayer";
+import { audioToSessionMs, sessionToAudioMs, TimelineChunk } from "@/lib/playbackTimeline";
+
+interface TranscriptSegment {
+  seq: number;
+  text: string;
+  speaker?: string | null;
+  startTime: number;
+  endTime: number;
+}
+
+interface TranscriptWord {
+  word: string;
+  startMs: number;
+  endMs: number;
+}
+
+interface KeyPointSource {
+  point: string;
+  sources: Array<{ seq: number; startMs: number; endMs: number; timestamp: string }>;
+}
+
+interface FailedChunk {
+  seq: number;
+  attempts: number;
+  lastAttempt: {
+    engine: string | null;
+    errorClass: string | null;
+    errorMessage: string | null;
+    createdAt: string;
+  } | null;
+}
 
 interface SessionDetail {
   id: string;
@@ -15,6 +49,11 @@ interface SessionDetail {
   chunkCount: number;
   transcript: string | null;
   summaryJSON: any;
+  segments?: TranscriptSegment[];
+  words?: TranscriptWord[];
+  timeline?: TimelineChunk[];
+  speakers?: SpeakerEntry[];
+  failedChunks?: FailedChunk[];
   source?: string;
 }
 
@@ -23,7 +62,14 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
   const [session, setSession] = useState<SessionDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const deepLinkMs = searchParams.get("t") !== null ? Number(searchParams.get("t")) : null;
+  const deepLinkRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<AudioPlayerHandle>(null);
+  // session offset of the audio being played, null until playback starts
+  const [playingMs, setPlayingMs] = useState<number | null>(null);
 
   useEffect(() => {
     fetchSession();
@@ -54,6 +100,32 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
     }
   };
 
+  // seq retries one chunk, without it every failed chunk of the session is retried
+  const retryFailedChunks = async (seq?: number) => {
+    setRetrying(true);
+    try {
+      const url =
+        seq === undefined
+          ? `/api/sessions/${sessionId}/retranscribe`
+          : `/api/sessions/${sessionId}/chunks/${seq}/retranscribe`;
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(seq === undefined ? { onlyFailed: true } : {}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to retry chunks");
+
+      await fetchSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const canRetry = session?.status === "completed" || session?.status === "failed";
+
   const formatDuration = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
@@ -71,6 +143,68 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
     }).format(date);
   };
 
+  const hasSegments = !!session?.segments && session.segments.length > 0;
+
+  // ?t=<ms> from search results points at the segment playing at that moment
+  const deepLinkIndex =
+    deepLinkMs !== null && session?.segments
+      ? session.segments.findLastIndex((segment) => segment.startTime <= deepLinkMs)
+      : -1;
+
+  useEffect(() => {
+    deepLinkRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [deepLinkIndex]);
+
+  // segment times include pause gaps, the player's audio doesn't
+  const timeline = useMemo(() => session?.timeline ?? [], [session?.timeline]);
+
+  const seekToSessionMs = useCallback(
+    (ms: number, play = true) => {
+      playerRef.current?.seekTo(sessionToAudioMs(timeline, ms) / 1000, play);
+    },
+    [timeline]
+  );
+
+  const handlePlayerTime = (seconds: number) => {
+    setPlayingMs(audioToSessionMs(timeline, seconds * 1000));
+  };
+
+  // search hits and key point sources land here as ?t=, queue the player there too
+  // only once per link, polls while processing bring a new timeline that mustn't move it again
+  const hasSession = !!session;
+  const seekedDeepLinkRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!hasSession || deepLinkMs === null || !Number.isFinite(deepLinkMs)) return;
+    if (seekedDeepLinkRef.current === deepLinkMs) return;
+
+    seekedDeepLinkRef.current = deepLinkMs;
+    seekToSessionMs(deepLinkMs, false);
+  }, [deepLinkMs, hasSession, seekToSessionMs]);
+
+  // words grouped under the segment they were spoken in
+  const segmentWords = useMemo(() => {
+    const segments = session?.segments ?? [];
+    const words = session?.words ?? [];
+    const grouped: TranscriptWord[][] = segments.map(() => []);
+
+    let index = 0;
+    for (const word of words) {
+      while (index < segments.length - 1 && word.startMs >= segments[index + 1].startTime) {
+        index++;
+      }
+      if (segments[index] && word.startMs >= segments[index].startTime) {
+        grouped[index].push(word);
+      }
+    }
+
+    return grouped;
+  }, [session?.segments, session?.words]);
+
+  const playingIndex =
+    playingMs !== null && session?.segments
+      ? session.segments.findLastIndex((segment) => segment.startTime <= playingMs)
+      : -1;
+
   const downloadTranscript = (format: "txt" | "json" | "srt") => {
     window.open(`/api/sessions/${sessionId}/download?format=${format}`, "_blank");
   };
@@ -174,6 +308,55 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
           </div>
         )}
 
+        {/* Failed chunks leave gaps in the transcript, say why */}
+        {session.failedChunks && session.failedChunks.length > 0 && (
+          <div className="mb-6 p-4 bg-red-100 border-4 border-red-500 text-red-900">
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <h3 className="font-black uppercase">
+                {session.failedChunks.length} chunk
+                {session.failedChunks.length === 1 ? "" : "s"} could not be transcribed
+              </h3>
+              {canRetry && (
+                <button
+                  onClick={() => retryFailedChunks()}
+                  disabled={retrying}
+                  className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-red-500 font-bold text-sm hover:bg-red-50 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Retry all
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1 text-sm">
+              {session.failedChunks.map((chunk) => (
+                <li key={chunk.seq}>
+                  <span className="font-bold">Chunk {chunk.seq}</span>
+                  {chunk.lastAttempt ? (
+                    <>
+                      {" "}
+                      ({chunk.attempts} attempt{chunk.attempts === 1 ? "" : "s"}
+                      {chunk.lastAttempt.engine && `, ${chunk.lastAttempt.engine}`}):{" "}
+                      {chunk.lastAttempt.errorClass && `${chunk.lastAttempt.errorClass}: `}
+                      {chunk.lastAttempt.errorMessage || "Unknown error"}
+                    </>
+                  ) : (
+                    ": no error recorded"
+                  )}
+                  {canRetry && (
+                    <button
+                      onClick={() => retryFailedChunks(chunk.seq)}
+                      disabled={retrying}
+                      className="ml-2 underline font-bold disabled:opacity-50"
+                    >
+                      retry
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Download Buttons */}
         {session.status === "completed" && session.transcript && (
           <div className="mb-6 p-4 bg-retro-accent border-4 border-black shadow-retro">
@@ -204,6 +387,18 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
           </div>
         )}
 
+        {/* Playback, driven by the transcript below */}
+        {session.timeline && session.timeline.length > 0 && (
+          <div className="mb-6">
+            <AudioPlayer
+              ref={playerRef}
+              sessionId={sessionId}
+              sessionTitle={session.title}
+              onTimeUpdate={handlePlayerTime}
+            />
+          </div>
+        )}
+
         {/* Transcript Section */}
         {session.transcript && (
           <div className="mb-6 p-6 bg-white dark:bg-gray-900 border-4 border-black dark:border-white shadow-retro">
@@ -213,12 +408,76 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
                 {session.transcript.split(" ").filter((w) => w.length > 0).length} WORDS
               </span>
             </div>
-            <div className="prose dark:prose-invert max-w-none">
-              <p className="text-base leading-relaxed whitespace-pre-wrap">{session.transcript}</p>
-            </div>
+            {hasSegments ? (
+              <div className="space-y-3">
+                {session.segments!.map((segment, index) => (
+                  <div
+                    key={`${segment.seq}-${index}`}
+                    ref={index === deepLinkIndex ? deepLinkRef : undefined}
+                    onClick={() => seekToSessionMs(segment.startTime)}
+                    title="Play from here"
+                    className={`flex gap-3 cursor-pointer -mx-2 px-2 hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                      index === playingIndex
+                        ? "bg-retro-accent/40 dark:bg-retro-accent/20"
+                        : index === deepLinkIndex
+                          ? "bg-yellow-100 dark:bg-yellow-900/40"
+                          : ""
+                    }`}
+                  >
+                    <span className="shrink-0 w-16 text-xs font-bold text-gray-500 pt-1">
+                      {formatDuration(Math.floor(segment.startTime / 1000))}
+                    </span>
+                    <p className="text-base leading-relaxed">
+                      {segment.speaker && (
+                        <span className="font-black mr-2">{segment.speaker}:</span>
+                      )}
+                      {segmentWords[index]?.length > 0
+                        ? segmentWords[index].map((word, wordIndex) => (
+                            <span
+                              key={wordIndex}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                seekToSessionMs(word.startMs);
+                              }}
+                              className={`hover:underline ${
+                                playingMs !== null &&
+                                word.startMs <= playingMs &&
+                                playingMs < word.endMs
+                                  ? "bg-retro-accent"
+                                  : ""
+                              }`}
+                            >
+                              {word.word}{" "}
+                            </span>
+                          ))
+                        : segment.text}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="prose dark:prose-invert max-w-none">
+                <p className="text-base leading-relaxed whitespace-pre-wrap">
+                  {session.transcript}
+                </p>
+              </div>
+            )}
           </div>
         )}
 
+        {/* Speaker Roster */}
+        {session.speakers && session.speakers.length > 0 && (
+          <SpeakerRoster
+            sessionId={sessionId}
+            speakers={session.speakers}
+            onChange={() => fetchSession()}
+          />
+        )}
+
+        {session.status === "completed" && (
+          <SummaryVersions sessionId={sessionId} onChange={() => fetchSession()} />
+        )}
+
         {/* Summary Section */}
         {session.summaryJSON && session.summaryJSON.executiveSummary && (
           <div className="mb-6 p-6 bg-white dark:bg-gray-900 border-4 border-black dark:border-white shadow-retro">
@@ -228,11 +487,108 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
                 AI GENERATED
               </span>
             </div>
+            {session.summaryJSON.template && (
+              <p className="mb-3 text-xs font-bold uppercase text-gray-500">
+                {session.summaryJSON.template.name} template · v
+                {session.summaryJSON.template.version}
+              </p>
+            )}
             <div className="prose dark:prose-invert max-w-none">
               <p className="text-base leading-relaxed whitespace-pre-wrap">
                 {session.summaryJSON.executiveSummary}
               </p>
             </div>
+            {session.summaryJSON.fields && (
+              <dl className="mt-4 pt-4 border-t-2 border-black dark:border-white grid gap-3 sm:grid-cols-2">
+                {Object.entries(
+                  session.summaryJSON.fields as Record<string, string | string[]>
+                ).map(([key, value]) => (
+                  <div key={key}>
+                    <dt className="text-sm font-black uppercase">{humanizeFieldKey(key)}</dt>
+                    <dd className="text-sm">
+                      {Array.isArray(value) ? (
+                        value.length > 0 ? (
+                          <ul className="list-disc list-inside">
+                            {value.map((entry, index) => (
+                              <li key={index}>{entry}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-500">None</span>
+                        )
+                      ) : (
+                        value || <span className="text-gray-500">None</span>
+                      )}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {session.summaryJSON.keyPointSources?.length > 0 && (
+              <div className="mt-4 pt-4 border-t-2 border-black dark:border-white">
+                <h4 className="text-sm font-black uppercase mb-2">Key Points</h4>
+                <ul className="space-y-2">
+                  {session.summaryJSON.keyPointSources.map(
+                    (keyPoint: KeyPointSource, index: number) => (
+                      <li key={index} className="text-sm">
+                        <span className="font-bold">{keyPoint.point}</span>
+                        {keyPoint.sources.map((source) => (
+                          <Link
+                            key={`${source.seq}-${source.startMs}`}
+                            href={`/sessions/${sessionId}?t=${source.startMs}&seq=${source.seq}`}
+                            scroll={false}
+                            className="ml-2 px-1 text-xs font-mono bg-gray-100 dark:bg-gray-800 border border-black hover:bg-retro-accent"
+                          >
+                            {source.timestamp}
+                          </Link>
+                        ))}
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            )}
+            {session.summaryJSON.actionItems?.length > 0 && (
+              <div className="mt-4 pt-4 border-t-2 border-black dark:border-white">
+                <h4 className="text-sm font-black uppercase mb-2">Action Items</h4>
+                <ul className="space-y-1">
+                  {session.summaryJSON.actionItems.map(
+                    (
+                      item: { speaker: string; item: string; timestamp?: string },
+                      index: number
+                    ) => (
+                      <li key={index} className="text-sm">
+                        <span className="font-bold">{item.speaker}:</span> {item.item}
+                        {item.timestamp && (
+                          <span className="ml-2 text-xs font-mono text-gray-500">
+                            {item.timestamp}
+                          </span>
+                        )}
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            )}
+            {session.summaryJSON.decisions?.length > 0 && (
+              <div className="mt-4 pt-4 border-t-2 border-black dark:border-white">
+                <h4 className="text-sm font-black uppercase mb-2">Decisions</h4>
+                <ul className="space-y-1">
+                  {session.summaryJSON.decisions.map(
+                    (decision: { decision: string; timestamp?: string }, index: number) => (
+                      <li key={index} className="text-sm">
+                        {decision.decision}
+                        {decision.timestamp && (
+                          <span className="ml-2 text-xs font-mono text-gray-500">
+                            {decision.timestamp}
+                          </span>
+                        )}
+                      </li>
+                    )
+                  )}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
@@ -246,3 +602,12 @@ export default function SessionDetailPage({ params }: { params: Promise<{ sessio
     </div>
   );
 }
+
+// "followUps" -> "Follow ups"
+function humanizeFieldKey(key: string): string {
+  const words = key
+    .replace(/_/g, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -1,14 +1,82 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { forwardRef, useState, useRef, useEffect, useImperativeHandle, useMemo } from "react";
 import { Play, Pause, Download, AlertCircle } from "lucide-react";
 
+interface Bookmark {
+  id: string;
+  offsetMs: number;
+  note: string | null;
+}
+
+// offsets are audio time (pauses excluded), like currentTime
+interface Waveform {
+  bucketMs: number;
+  durationMs: number;
+  // interleaved [min, max, ...] per bucket, -1..1
+  peaks: number[];
+  silences: { startMs: number; endMs: number }[];
+  turns: { speaker: string; startMs: number; endMs: number }[];
+}
+
+// columns drawn, peaks are folded down to this so long recordings stay cheap to render
+const WAVEFORM_COLUMNS = 600;
+
+const SPEAKER_COLORS = [
+  "bg-retro-secondary",
+  "bg-retro-primary",
+  "bg-brand-400",
+  "bg-retro-accent",
+  "bg-purple-400",
+  "bg-green-400",
+];
+
+/**
+ * SVG path of the waveform in a WAVEFORM_COLUMNS x 100 box, max above the middle, min below
+ */
+function buildWaveformPath(peaks: number[]): string {
+  const buckets = peaks.length / 2;
+  if (buckets === 0) return "";
+
+  const columns = Math.min(WAVEFORM_COLUMNS, buckets);
+  const perColumn = buckets / columns;
+  const top: string[] = [];
+  const bottom: string[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min(buckets, Math.ceil((column + 1) * perColumn));
+    for (let i = Math.floor(column * perColumn); i < end; i++) {
+      min = Math.min(min, peaks[i * 2]);
+      max = Math.max(max, peaks[i * 2 + 1]);
+    }
+
+    const x = ((column + 0.5) / columns) * WAVEFORM_COLUMNS;
+    // at least a hairline so silence still shows where the audio is
+    top.push(`${x.toFixed(1)},${(50 - Math.max(max * 50, 0.5)).toFixed(1)}`);
+    bottom.push(`${x.toFixed(1)},${(50 - Math.min(min * 50, -0.5)).toFixed(1)}`);
+  }
+
+  return `M0,50 L${top.join(" L")} L${WAVEFORM_COLUMNS},50 L${bottom.reverse().join(" L")} Z`;
+}
+
 interface AudioPlayerProps {
   sessionId: string;
   sessionTitle?: string;
+  // playback position in seconds of the stitched audio, fired as it plays and on seeks
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+// lets the transcript drive the player, times are in seconds of the stitched audio
+export interface AudioPlayerHandle {
+  seekTo: (seconds: number, play?: boolean) => void;
 }
 
-export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(function AudioPlayer(
+  { sessionId, sessionTitle, onTimeUpdate },
+  ref
+) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -16,6 +84,12 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
   const [error, setError] = useState<string | null>(null);
   const [audioAvailable, setAudioAvailable] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  // a seek requested before the metadata loaded, applied once it has
+  const pendingSeekRef = useRef<{ seconds: number; play: boolean } | null>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
 
   const audioUrl = `/api/sessions/${sessionId}/audio`;
 
@@ -42,12 +116,52 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
     checkAudio();
   }, [audioUrl]);
 
+  useEffect(() => {
+    fetch(`/api/sessions/${sessionId}/bookmarks`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setBookmarks(data?.bookmarks ?? []))
+      .catch((err) => console.warn("[AudioPlayer] Failed to fetch bookmarks:", err));
+  }, [sessionId]);
+
+  // optional, the plain scrub bar still works without it
+  useEffect(() => {
+    if (!audioAvailable) return;
+
+    fetch(`/api/sessions/${sessionId}/waveform`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: Waveform | null) => setWaveform(data))
+      .catch((err) => console.warn("[AudioPlayer] Failed to fetch waveform:", err));
+  }, [sessionId, audioAvailable]);
+
+  const waveformPath = useMemo(
+    () => (waveform ? buildWaveformPath(waveform.peaks) : ""),
+    [waveform]
+  );
+
+  const speakerColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    for (const turn of waveform?.turns ?? []) {
+      if (!colors.has(turn.speaker)) {
+        colors.set(turn.speaker, SPEAKER_COLORS[colors.size % SPEAKER_COLORS.length]);
+      }
+    }
+    return colors;
+  }, [waveform]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio || !audioAvailable) return;
 
-    const handleTimeUpdate = () => setCurrentTime(audio.currentTime);
+    const handleTimeUpdate = () => {
+      setCurrentTime(audio.currentTime);
+      onTimeUpdateRef.current?.(audio.currentTime);
+    };
     const handleDurationChange = () => setDuration(audio.duration);
+    const handleLoadedMetadata = () => {
+      const pending = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      if (pending) seekTo(pending.seconds, pending.play);
+    };
     const handleEnded = () => setIsPlaying(false);
     const handleLoadStart = () => setIsLoading(true);
     const handleCanPlay = () => {
@@ -72,6 +186,7 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
 
     audio.addEventListener("timeupdate", handleTimeUpdate);
     audio.addEventListener("durationchange", handleDurationChange);
+    audio.addEventListener("loadedmetadata", handleLoadedMetadata);
     audio.addEventListener("ended", handleEnded);
     audio.addEventListener("loadstart", handleLoadStart);
     audio.addEventListener("canplay", handleCanPlay);
@@ -80,6 +195,7 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
     return () => {
       audio.removeEventListener("timeupdate", handleTimeUpdate);
       audio.removeEventListener("durationchange", handleDurationChange);
+      audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
       audio.removeEventListener("ended", handleEnded);
       audio.removeEventListener("loadstart", handleLoadStart);
       audio.removeEventListener("canplay", handleCanPlay);
@@ -99,13 +215,40 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
     setIsPlaying(!isPlaying);
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  function seekTo(time: number, play = false) {
     const audio = audioRef.current;
-    if (!audio) return;
+    if (!audio || audio.readyState < HTMLMediaElement.HAVE_METADATA) {
+      pendingSeekRef.current = { seconds: time, play };
+      return;
+    }
+
+    audio.currentTime = time;
+    setCurrentTime(time);
+    onTimeUpdateRef.current?.(time);
+
+    if (play && audio.paused) {
+      audio.play();
+      setIsPlaying(true);
+    }
+  }
+
+  useImperativeHandle(ref, () => ({ seekTo }));
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(parseFloat(e.target.value));
+  };
+
+  // concatenated webm can report an Infinity duration, the waveform knows the decoded length
+  const totalSeconds =
+    isFinite(duration) && duration > 0 ? duration : (waveform?.durationMs ?? 0) / 1000;
 
-    const newTime = parseFloat(e.target.value);
-    audio.currentTime = newTime;
-    setCurrentTime(newTime);
+  const percentOf = (ms: number) =>
+    `${totalSeconds > 0 ? Math.min(100, (ms / 1000 / totalSeconds) * 100) : 0}%`;
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const share = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    seekTo(share * totalSeconds);
   };
 
   const handleDownload = async () => {
@@ -190,14 +333,100 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
             <div className="flex-1">
               <div className="flex items-center justify-between text-sm font-bold mb-2">
                 <span>{formatTime(currentTime)}</span>
-                <span>{formatTime(duration)}</span>
+                <span>{formatTime(totalSeconds)}</span>
               </div>
 
+              {/* Bookmarks made while recording */}
+              {bookmarks.length > 0 && totalSeconds > 0 && (
+                <div className="relative h-4 mb-1">
+                  {bookmarks.map((bookmark) => (
+                    <button
+                      key={bookmark.id}
+                      onClick={() => seekTo(bookmark.offsetMs / 1000)}
+                      title={`${formatTime(bookmark.offsetMs / 1000)}${bookmark.note ? ` ${bookmark.note}` : ""}`}
+                      aria-label={`Jump to bookmark at ${formatTime(bookmark.offsetMs / 1000)}`}
+                      className="absolute top-0 w-3 h-4 -ml-1.5 bg-retro-accent border-2 border-black hover:scale-125 transition-transform"
+                      style={{ left: percentOf(bookmark.offsetMs) }}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Waveform with speaker turns, silences and bookmarks, click to seek */}
+              {waveform && waveformPath && totalSeconds > 0 && (
+                <div className="mb-2">
+                  <div
+                    onClick={handleWaveformClick}
+                    className="relative h-16 bg-gray-100 dark:bg-gray-800 border-2 border-black cursor-pointer overflow-hidden"
+                  >
+                    {waveform.silences.map((silence) => (
+                      <div
+                        key={silence.startMs}
+                        title={`Silence ${formatTime(silence.startMs / 1000)} - ${formatTime(silence.endMs / 1000)}`}
+                        className="absolute inset-y-0 bg-gray-300/60 dark:bg-gray-600/60"
+                        style={{
+                          left: percentOf(silence.startMs),
+                          width: `calc(${percentOf(silence.endMs)} - ${percentOf(silence.startMs)})`,
+                        }}
+                      />
+                    ))}
+
+                    <svg
+                      viewBox={`0 0 ${WAVEFORM_COLUMNS} 100`}
+                      preserveAspectRatio="none"
+                      className="absolute inset-0 w-full h-full"
+                    >
+                      <defs>
+                        <clipPath id={`waveform-played-${sessionId}`}>
+                          <rect
+                            x="0"
+                            y="0"
+                            height="100"
+                            width={Math.min(1, currentTime / totalSeconds) * WAVEFORM_COLUMNS}
+                          />
+                        </clipPath>
+                      </defs>
+                      <path d={waveformPath} className="fill-gray-400 dark:fill-gray-500" />
+                      <path
+                        d={waveformPath}
+                        className="fill-retro-primary"
+                        clipPath={`url(#waveform-played-${sessionId})`}
+                      />
+                    </svg>
+
+                    {bookmarks.map((bookmark) => (
+                      <div
+                        key={bookmark.id}
+                        className="absolute inset-y-0 w-0.5 bg-black dark:bg-white pointer-events-none"
+                        style={{ left: percentOf(bookmark.offsetMs) }}
+                      />
+                    ))}
+                  </div>
+
+                  {/* Speaker turns */}
+                  {waveform.turns.length > 0 && (
+                    <div className="relative h-2 border-x-2 border-b-2 border-black">
+                      {waveform.turns.map((turn) => (
+                        <div
+                          key={`${turn.speaker}-${turn.startMs}`}
+                          title={`${turn.speaker} ${formatTime(turn.startMs / 1000)}`}
+                          className={`absolute inset-y-0 ${speakerColors.get(turn.speaker)}`}
+                          style={{
+                            left: percentOf(turn.startMs),
+                            width: `calc(${percentOf(turn.endMs)} - ${percentOf(turn.startMs)})`,
+                          }}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Progress bar */}
               <input
                 type="range"
                 min="0"
-                max={duration || 0}
+                max={totalSeconds || 0}
                 value={currentTime}
                 onChange={handleSeek}
                 disabled={!audioAvailable}
@@ -209,4 +438,4 @@ export function AudioPlayer({ sessionId, sessionTitle }: AudioPlayerProps) {
       )}
     </div>
   );
-}
+});
@@ -3,11 +3,13 @@
 import { useState, useRef } from "react";
 import { Upload, File, X, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { SummaryTemplateSelect } from "./SummaryTemplateSelect";
 
 export default function AudioUpload() {
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
+  const [summaryTemplate, setSummaryTemplate] = useState("general");
   const [uploading, setUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<{
     type: "success" | "error" | null;
@@ -58,6 +60,7 @@ export default function AudioUpload() {
       const formData = new FormData();
       formData.append("audio", file);
       formData.append("title", title || file.name);
+      formData.append("summaryTemplate", summaryTemplate);
 
       const response = await fetch("/api/upload", {
         method: "POST",
@@ -169,6 +172,16 @@ export default function AudioUpload() {
               />
             </div>
 
+            {/* Summary Template */}
+            <div>
+              <label className="block text-sm font-bold mb-2">Summary Template</label>
+              <SummaryTemplateSelect
+                value={summaryTemplate}
+                onChange={setSummaryTemplate}
+                disabled={uploading}
+              />
+            </div>
+
             {/* Upload Button */}
             <button
               onClick={handleUpload}
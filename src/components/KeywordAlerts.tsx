@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Socket } from "socket.io-client";
+import { Bell, X } from "lucide-react";
+
+interface KeywordAlert {
+  sessionId: string;
+  ruleId: string;
+  ruleName: string;
+  match: string;
+  seq: number;
+  offsetMs: number;
+  speaker: string | null;
+  context: string;
+  timestamp: number;
+}
+
+interface KeywordAlertsProps {
+  sessionId: string;
+  socket: Socket | null;
+}
+
+const MAX_VISIBLE_ALERTS = 5;
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// alert rule matches pushed by the transcription worker, newest first
+export function KeywordAlerts({ sessionId, socket }: KeywordAlertsProps) {
+  const [alerts, setAlerts] = useState<KeywordAlert[]>([]);
+
+  useEffect(() => {
+    setAlerts([]);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleAlert = (data: KeywordAlert) => {
+      if (data.sessionId !== sessionId) return;
+      setAlerts((prev) => [data, ...prev].slice(0, MAX_VISIBLE_ALERTS));
+    };
+
+    socket.on("keyword-alert", handleAlert);
+    return () => {
+      socket.off("keyword-alert", handleAlert);
+    };
+  }, [socket, sessionId]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-2 border-black dark:border-gray-700 bg-yellow-100 dark:bg-yellow-900/40 p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="flex items-center gap-2 font-black uppercase text-xs">
+          <Bell className="w-4 h-4" /> Alerts
+        </h4>
+        <button
+          onClick={() => setAlerts([])}
+          className="text-gray-600 dark:text-gray-300 hover:text-black dark:hover:text-white"
+          aria-label="Dismiss alerts"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {alerts.map((alert, i) => (
+          <li key={`${alert.timestamp}-${i}`}>
+            <span className="font-bold">{alert.ruleName}</span>
+            <span className="text-gray-600 dark:text-gray-300">
+              {" "}
+              · {formatOffset(alert.offsetMs)}
+              {alert.speaker && ` · ${alert.speaker}`}
+            </span>
+            <p className="truncate">…{alert.context.replace(alert.match, `“${alert.match}”`)}…</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
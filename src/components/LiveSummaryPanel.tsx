@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Socket } from "socket.io-client";
+
+interface LiveSummary {
+  summary: string;
+  actionItems: Array<{ speaker: string; item: string; priority?: "low" | "medium" | "high" }>;
+  throughSeq: number;
+  updatedAt: string;
+}
+
+interface LiveSummaryPanelProps {
+  sessionId: string;
+  socket: Socket | null;
+}
+
+// "what's happened so far" while recording, refreshed every few transcribed chunks
+export function LiveSummaryPanel({ sessionId, socket }: LiveSummaryPanelProps) {
+  const [liveSummary, setLiveSummary] = useState<LiveSummary | null>(null);
+
+  useEffect(() => {
+    setLiveSummary(null);
+    fetch(`/api/sessions/${sessionId}/live-summary`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.liveSummary) setLiveSummary(data.liveSummary);
+      })
+      .catch((error) => console.warn("[LiveSummaryPanel] Failed to fetch live summary:", error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleUpdate = (data: LiveSummary & { sessionId: string }) => {
+      if (data.sessionId === sessionId) setLiveSummary(data);
+    };
+
+    socket.on("live-summary-updated", handleUpdate);
+    return () => {
+      socket.off("live-summary-updated", handleUpdate);
+    };
+  }, [socket, sessionId]);
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4 text-sm">
+      {!liveSummary ? (
+        <p className="text-gray-500 dark:text-gray-400 font-bold">
+          The summary so far shows up here after the first few minutes.
+        </p>
+      ) : (
+        <>
+          <div>
+            <h4 className="font-black uppercase text-xs mb-1">So far</h4>
+            <p className="whitespace-pre-wrap">{liveSummary.summary}</p>
+          </div>
+
+          <div>
+            <h4 className="font-black uppercase text-xs mb-1">
+              Action items ({liveSummary.actionItems.length})
+            </h4>
+            {liveSummary.actionItems.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">None yet</p>
+            ) : (
+              <ul className="space-y-1 list-disc list-inside">
+                {liveSummary.actionItems.map((action, i) => (
+                  <li key={i}>
+                    {action.item}
+                    {action.speaker && action.speaker !== "Unknown" && (
+                      <span className="text-gray-500 dark:text-gray-400"> ({action.speaker})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Updated {new Date(liveSummary.updatedAt).toLocaleTimeString()} · through chunk #
+            {liveSummary.throughSeq}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useEffect } from "react";
-import { Play, Pause, Square, Mic, Monitor } from "lucide-react";
+import { Play, Pause, Square, Mic, Monitor, Bookmark } from "lucide-react";
 import { clsx } from "clsx";
 
 export type RecordingStatus = "idle" | "recording" | "paused" | "processing";
@@ -15,6 +15,8 @@ interface RecordingControlsProps {
   onResume: () => void;
   onStop: () => void;
   onSourceChange: (source: AudioSource) => void;
+  // marks the current moment, the note is optional
+  onBookmark?: (note?: string) => void;
   duration?: number;
 }
 
@@ -26,6 +28,7 @@ export function RecordingControls({
   onResume,
   onStop,
   onSourceChange,
+  onBookmark,
   duration = 0,
 }: RecordingControlsProps) {
   const formatDuration = (seconds: number) => {
@@ -35,7 +38,7 @@ export function RecordingControls({
   };
 
   // enable keyboard shortcuts
-  useRecordingKeyboardShortcuts(status, onStart, onPause, onResume, onStop);
+  useRecordingKeyboardShortcuts(status, onStart, onPause, onResume, onStop, onBookmark);
   return (
     <div className="w-full space-y-4">
       {/* Status Indicator */}
@@ -135,6 +138,17 @@ export function RecordingControls({
               <Square className="w-6 h-6" />
               Stop
             </button>
+            {onBookmark && (
+              <button
+                onClick={() => onBookmark()}
+                aria-keyshortcuts="b"
+                aria-label="Bookmark this moment (B, Shift+B to add a note)"
+                className="flex items-center gap-3 px-6 py-4 bg-retro-accent text-black font-black text-lg border-4 border-black shadow-retro hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-retro-hover active:translate-x-[4px] active:translate-y-[4px] active:shadow-none transition-all uppercase"
+              >
+                <Bookmark className="w-6 h-6" />
+                Mark
+              </button>
+            )}
           </>
         )}
 
@@ -158,6 +172,17 @@ export function RecordingControls({
               <Square className="w-6 h-6" />
               Stop
             </button>
+            {onBookmark && (
+              <button
+                onClick={() => onBookmark()}
+                aria-keyshortcuts="b"
+                aria-label="Bookmark this moment (B, Shift+B to add a note)"
+                className="flex items-center gap-3 px-6 py-4 bg-retro-accent text-black font-black text-lg border-4 border-black shadow-retro hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-retro-hover active:translate-x-[4px] active:translate-y-[4px] active:shadow-none transition-all uppercase"
+              >
+                <Bookmark className="w-6 h-6" />
+                Mark
+              </button>
+            )}
           </>
         )}
 
@@ -193,7 +218,7 @@ export function RecordingControls({
         )}
         {status === "recording" && (
           <div className="space-y-2">
-            <p>Recording in progress... Click "Pause" or "Stop"</p>
+            <p>Recording in progress... Click "Pause" or "Stop", press B to mark a moment</p>
             <div className="text-xs p-3 bg-blue-100 dark:bg-blue-900/30 border-2 border-blue-500 mt-2">
               <p className="font-bold">📊 Processing metadata in real-time</p>
               <p>Formatted transcript will be available after stopping</p>
@@ -217,13 +242,14 @@ export function RecordingControls({
   );
 }
 
-// Keyboard bindings: R = Start/Resume, P = Pause, S = Stop
+// Keyboard bindings: R = Start/Resume, P = Pause, S = Stop, B = Bookmark (Shift+B asks for a note)
 export function useRecordingKeyboardShortcuts(
   status: RecordingStatus,
   onStart: () => void,
   onPause: () => void,
   onResume: () => void,
-  onStop: () => void
+  onStop: () => void,
+  onBookmark?: (note?: string) => void
 ) {
   useEffect(() => {
     function handler(e: KeyboardEvent) {
@@ -237,9 +263,19 @@ export function useRecordingKeyboardShortcuts(
       if (e.key === "s" || e.key === "S") {
         if (status === "recording" || status === "paused") onStop();
       }
+      if ((e.key === "b" || e.key === "B") && onBookmark) {
+        if (status !== "recording" && status !== "paused") return;
+        if (e.shiftKey) {
+          // cancelling the prompt drops the bookmark
+          const note = window.prompt("Bookmark note (optional)");
+          if (note !== null) onBookmark(note);
+        } else {
+          onBookmark();
+        }
+      }
     }
 
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [status, onStart, onPause, onResume, onStop]);
+  }, [status, onStart, onPause, onResume, onStop, onBookmark]);
 }
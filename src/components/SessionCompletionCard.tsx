@@ -28,6 +28,9 @@ interface SessionSummary {
   }>;
   duration: string;
   participantCount: number;
+  topics?: string[];
+  sentiment?: "positive" | "neutral" | "negative";
+  nextSteps?: string[];
 }
 
 export function SessionCompletionCard({ sessionId, onDownload }: SessionCompletionCardProps) {
@@ -178,11 +181,47 @@ export function SessionCompletionCard({ sessionId, onDownload }: SessionCompleti
           </div>
         )}
 
+        {/* Next Steps */}
+        {summary.nextSteps && summary.nextSteps.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Next Steps
+            </h4>
+            <ul className="list-disc list-inside space-y-1">
+              {summary.nextSteps.map((step, idx) => (
+                <li key={idx} className="text-gray-600 dark:text-gray-400 text-sm">
+                  {step}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Topics */}
+        {summary.topics && summary.topics.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {summary.topics.map((topic) => (
+              <span
+                key={topic}
+                className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+              >
+                {topic}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Footer Metadata */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700 flex items-center gap-4 text-sm text-gray-500 dark:text-gray-500">
           <span>Duration: {summary.duration}</span>
           <span>•</span>
           <span>Participants: {summary.participantCount}</span>
+          {summary.sentiment && (
+            <>
+              <span>•</span>
+              <span className="capitalize">Tone: {summary.sentiment}</span>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Check, GitMerge, Users } from "lucide-react";
+
+export interface SpeakerEntry {
+  id: string;
+  label: string;
+  segmentCount: number;
+  totalDurationMs?: number;
+  customName?: string;
+  mergedInto?: string;
+}
+
+interface SpeakerRosterProps {
+  sessionId: string;
+  speakers: SpeakerEntry[];
+  onChange: (speakers: SpeakerEntry[]) => void;
+}
+
+export function SpeakerRoster({ sessionId, speakers, onChange }: SpeakerRosterProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateSpeaker = async (
+    label: string,
+    body: { name?: string | null; mergeInto?: string | null }
+  ) => {
+    setSaving(label);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/sessions/${sessionId}/speakers/${encodeURIComponent(label)}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update speaker");
+      }
+      onChange(data.speakers);
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[label];
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update speaker");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-6 bg-white dark:bg-gray-900 border-4 border-black dark:border-white shadow-retro">
+      <div className="flex items-center gap-2 mb-4 border-b-4 border-black dark:border-white pb-2">
+        <Users className="w-5 h-5" />
+        <h3 className="text-xl font-black uppercase">Speakers</h3>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-100 border-2 border-red-500 text-red-900 text-sm font-bold">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {speakers.map((speaker) => {
+          const draft = drafts[speaker.label] ?? speaker.customName ?? "";
+          const targets = speakers.filter((s) => s.label !== speaker.label && !s.mergedInto);
+
+          return (
+            <div
+              key={speaker.id}
+              className="flex flex-wrap items-center gap-3 p-3 border-2 border-black dark:border-white bg-gray-50 dark:bg-black"
+            >
+              <span className="px-2 py-1 bg-retro-secondary border-2 border-black text-xs font-bold">
+                {speaker.label}
+              </span>
+              <span className="text-xs font-bold text-gray-500">
+                {speaker.segmentCount} segments
+                {speaker.totalDurationMs ? ` · ${Math.round(speaker.totalDurationMs / 1000)}s` : ""}
+              </span>
+
+              {speaker.mergedInto ? (
+                <span className="flex items-center gap-2 text-sm font-bold">
+                  <GitMerge className="w-4 h-4" />
+                  merged into {speaker.mergedInto}
+                  <button
+                    onClick={() => updateSpeaker(speaker.label, { mergeInto: null })}
+                    disabled={saving === speaker.label}
+                    className="px-2 py-1 text-xs bg-white border-2 border-black font-bold"
+                  >
+                    UNDO
+                  </button>
+                </span>
+              ) : (
+                <>
+                  <input
+                    value={draft}
+                    onChange={(e) =>
+                      setDrafts((prev) => ({ ...prev, [speaker.label]: e.target.value }))
+                    }
+                    placeholder="Name"
+                    className="flex-1 min-w-[140px] px-2 py-1 border-2 border-black font-bold text-sm dark:bg-gray-900"
+                  />
+                  <button
+                    onClick={() =>
+                      updateSpeaker(speaker.label, { name: draft.trim() ? draft.trim() : null })
+                    }
+                    disabled={saving === speaker.label}
+                    className="p-1 bg-retro-accent border-2 border-black"
+                    title="Save name"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  {targets.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) =>
+                        e.target.value &&
+                        updateSpeaker(speaker.label, { mergeInto: e.target.value })
+                      }
+                      disabled={saving === speaker.label}
+                      className="px-2 py-1 border-2 border-black text-xs font-bold dark:bg-gray-900"
+                    >
+                      <option value="">MERGE INTO...</option>
+                      {targets.map((target) => (
+                        <option key={target.id} value={target.label}>
+                          {target.customName || target.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
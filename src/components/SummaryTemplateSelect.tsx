@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export interface SummaryTemplateOption {
+  id: string;
+  name: string;
+  description: string | null;
+  version: number;
+  builtIn: boolean;
+}
+
+interface SummaryTemplateSelectProps {
+  value: string;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SummaryTemplateSelect({
+  value,
+  onChange,
+  disabled,
+  className,
+}: SummaryTemplateSelectProps) {
+  const [templates, setTemplates] = useState<SummaryTemplateOption[]>([]);
+
+  useEffect(() => {
+    fetch("/api/summary-templates")
+      .then((response) => (response.ok ? response.json() : { templates: [] }))
+      .then((data) => setTemplates(data.templates))
+      .catch((error) => console.error("Failed to load summary templates:", error));
+  }, []);
+
+  const selected = templates.find((template) => template.id === value);
+
+  return (
+    <div className={className}>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled || templates.length === 0}
+        className="w-full px-2 py-1 border-2 border-black dark:border-white bg-white dark:bg-gray-900 font-bold text-sm disabled:opacity-50"
+      >
+        {templates.length === 0 && <option value={value}>General meeting</option>}
+        {templates.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.name}
+            {template.builtIn ? "" : " (custom)"}
+          </option>
+        ))}
+      </select>
+      {selected?.description && (
+        <p className="mt-1 text-xs text-gray-500">{selected.description}</p>
+      )}
+    </div>
+  );
+}
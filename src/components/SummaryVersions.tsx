@@ -0,0 +1,251 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { History, Loader2, RefreshCw } from "lucide-react";
+import { SummaryTemplateSelect } from "./SummaryTemplateSelect";
+
+interface SummaryVersionEntry {
+  version: number;
+  templateId: string | null;
+  templateName: string | null;
+  options: {
+    maxLength?: number;
+    focusAreas?: string[];
+    format?: "paragraph" | "bullets";
+    language?: string;
+  } | null;
+  engine: string | null;
+  createdAt: string;
+  active: boolean;
+}
+
+interface SummaryJob {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  lastError: string | null;
+}
+
+// how often to check on a queued regeneration
+const JOB_POLL_MS = 3000;
+
+interface SummaryVersionsProps {
+  sessionId: string;
+  onChange: () => void;
+}
+
+export function SummaryVersions({ sessionId, onChange }: SummaryVersionsProps) {
+  const [versions, setVersions] = useState<SummaryVersionEntry[]>([]);
+  const [job, setJob] = useState<SummaryJob | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [templateId, setTemplateId] = useState("general");
+  const [maxLength, setMaxLength] = useState("");
+  const [focusAreas, setFocusAreas] = useState("");
+  const [format, setFormat] = useState<"paragraph" | "bullets">("paragraph");
+  const [language, setLanguage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    const response = await fetch(`/api/sessions/${sessionId}/summary`);
+    if (response.ok) {
+      const data = await response.json();
+      setVersions(data.versions);
+      setJob(data.job);
+      const active = data.versions.find((v: SummaryVersionEntry) => v.active);
+      if (active?.templateId) setTemplateId(active.templateId);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const pending = job?.status === "queued" || job?.status === "running";
+  const wasPending = useRef(false);
+
+  // poll while a regeneration is queued, then refresh the summary it produced
+  useEffect(() => {
+    if (pending) {
+      wasPending.current = true;
+      const timer = setTimeout(fetchVersions, JOB_POLL_MS);
+      return () => clearTimeout(timer);
+    }
+    if (wasPending.current) {
+      wasPending.current = false;
+      if (job?.status === "completed") onChange();
+    }
+  }, [pending, job, fetchVersions, onChange]);
+
+  const request = async (method: "POST" | "PATCH", body: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/summary`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update summary");
+      }
+      await fetchVersions();
+      onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update summary");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const regenerate = async () => {
+    const ok = await request("POST", {
+      templateId,
+      format,
+      ...(maxLength && { maxLength: parseInt(maxLength, 10) }),
+      ...(focusAreas.trim() && {
+        focusAreas: focusAreas
+          .split(",")
+          .map((area) => area.trim())
+          .filter(Boolean),
+      }),
+      ...(language.trim() && { language: language.trim() }),
+    });
+    if (ok) setShowForm(false);
+  };
+
+  const describe = (entry: SummaryVersionEntry) =>
+    [
+      `v${entry.version}`,
+      entry.templateName,
+      entry.options?.format === "bullets" && "bullets",
+      entry.options?.language,
+      new Date(entry.createdAt).toLocaleString(),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <div className="mb-6 p-4 bg-white dark:bg-gray-900 border-4 border-black dark:border-white shadow-retro">
+      <div className="flex flex-wrap items-center gap-3">
+        <History className="w-5 h-5" />
+        {versions.length > 0 ? (
+          <select
+            value={versions.find((v) => v.active)?.version ?? ""}
+            onChange={(e) => request("PATCH", { version: parseInt(e.target.value, 10) })}
+            disabled={busy}
+            className="flex-1 min-w-[200px] px-2 py-1 border-2 border-black font-bold text-sm dark:bg-gray-900"
+          >
+            {versions.map((entry) => (
+              <option key={entry.version} value={entry.version}>
+                {describe(entry)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="flex-1 text-sm font-bold text-gray-500">No summary versions yet</span>
+        )}
+        <button
+          onClick={() => setShowForm((prev) => !prev)}
+          disabled={busy || pending}
+          className="flex items-center gap-2 px-3 py-1 bg-retro-accent border-2 border-black text-xs font-bold"
+        >
+          <RefreshCw className="w-4 h-4" />
+          REGENERATE
+        </button>
+      </div>
+
+      {pending && (
+        <div className="mt-3 flex items-center gap-2 text-sm font-bold">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {job?.status === "running" ? "Generating new summary..." : "New summary queued..."}
+        </div>
+      )}
+
+      {job?.status === "failed" && !error && (
+        <div className="mt-3 p-2 bg-red-100 border-2 border-red-500 text-red-900 text-sm font-bold">
+          Summary regeneration failed{job.lastError ? `: ${job.lastError}` : ""}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-100 border-2 border-red-500 text-red-900 text-sm font-bold">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="mt-4 grid gap-3 sm:grid-cols-2 text-xs font-bold uppercase">
+          <label>
+            Template
+            <SummaryTemplateSelect
+              value={templateId}
+              onChange={setTemplateId}
+              disabled={busy}
+              className="mt-1 normal-case"
+            />
+          </label>
+          <label>
+            Format
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as "paragraph" | "bullets")}
+              disabled={busy}
+              className="mt-1 w-full px-2 py-1 border-2 border-black font-bold text-sm normal-case dark:bg-gray-900"
+            >
+              <option value="paragraph">Paragraphs</option>
+              <option value="bullets">Bullets</option>
+            </select>
+          </label>
+          <label>
+            Max length (words)
+            <input
+              type="number"
+              min={50}
+              max={2000}
+              value={maxLength}
+              onChange={(e) => setMaxLength(e.target.value)}
+              disabled={busy}
+              placeholder="No limit"
+              className="mt-1 w-full px-2 py-1 border-2 border-black font-bold text-sm normal-case dark:bg-gray-900"
+            />
+          </label>
+          <label>
+            Language
+            <input
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              disabled={busy}
+              placeholder="Same as the meeting"
+              className="mt-1 w-full px-2 py-1 border-2 border-black font-bold text-sm normal-case dark:bg-gray-900"
+            />
+          </label>
+          <label className="sm:col-span-2">
+            Focus areas (comma separated)
+            <input
+              value={focusAreas}
+              onChange={(e) => setFocusAreas(e.target.value)}
+              disabled={busy}
+              placeholder="e.g. pricing, hiring"
+              className="mt-1 w-full px-2 py-1 border-2 border-black font-bold text-sm normal-case dark:bg-gray-900"
+            />
+          </label>
+          <button
+            onClick={regenerate}
+            disabled={busy || pending}
+            className="sm:col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-retro-primary text-white border-2 border-black font-bold disabled:opacity-50"
+          >
+            {busy ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            {busy ? "QUEUEING..." : "GENERATE NEW VERSION"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { useSocket } from "@/hooks/useSocket";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Socket } from "socket.io-client";
+import type { SpeakerEntry } from "./SpeakerRoster";
 
 interface TranscriptSegment {
   sequence: number;
@@ -11,19 +12,116 @@ interface TranscriptSegment {
   chunkId: string;
 }
 
+// provisional text of a short slice, shown until its chunk's transcript arrives
+interface InterimSlice {
+  sequence: number;
+  index: number;
+  text: string;
+  timestamp: number;
+}
+
+// "this was important" marker from the recording hotkey
+interface Bookmark {
+  id: string;
+  offsetMs: number;
+  sequence: number | null;
+  note: string | null;
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+}
+
 interface TranscriptViewProps {
   sessionId: string | null;
+  // the recording page's connection, it already sits in the session room
+  socket: Socket | null;
+  isConnected: boolean;
 }
 
-export function TranscriptView({ sessionId }: TranscriptViewProps) {
-  const { socket, isConnected } = useSocket({
-    autoConnect: false, // Don't auto-connect, we'll manage socket lifecycle manually
-  });
+export function TranscriptView({ sessionId, socket, isConnected }: TranscriptViewProps) {
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [interim, setInterim] = useState<InterimSlice[]>([]);
   const [autoScroll, setAutoScroll] = useState(true);
   const containerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
   const hasJoinedRoom = useRef(false);
+  const transcribedSequences = useRef(new Set<number>());
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+
+  // renames and merges live in the Speaker table, chunk labels stay raw
+  const fetchSpeakerNames = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/speakers`);
+      if (!response.ok) return;
+      const { speakers } = (await response.json()) as { speakers: SpeakerEntry[] };
+
+      const byLabel = new Map(speakers.map((s) => [s.label, s]));
+      const names: Record<string, string> = {};
+      for (const speaker of speakers) {
+        let target = speaker;
+        const seen = new Set<string>();
+        while (target.mergedInto && byLabel.has(target.mergedInto) && !seen.has(target.label)) {
+          seen.add(target.label);
+          target = byLabel.get(target.mergedInto)!;
+        }
+        names[speaker.label] = target.customName || target.label;
+      }
+      setSpeakerNames(names);
+    } catch (error) {
+      console.warn("[TranscriptView] Failed to fetch speaker names:", error);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchSpeakerNames();
+  }, [fetchSpeakerNames]);
+
+  useEffect(() => {
+    setBookmarks([]);
+    if (!sessionId) return;
+
+    fetch(`/api/sessions/${sessionId}/bookmarks`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.bookmarks) setBookmarks(data.bookmarks);
+      })
+      .catch((error) => console.warn("[TranscriptView] Failed to fetch bookmarks:", error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket || !sessionId) return;
+
+    const handleBookmarkAdded = (data: Bookmark & { sessionId: string }) => {
+      if (data.sessionId !== sessionId) return;
+      setBookmarks((prev) =>
+        prev.some((b) => b.id === data.id)
+          ? prev
+          : [...prev, data].sort((a, b) => a.offsetMs - b.offsetMs)
+      );
+    };
+
+    socket.on("bookmark-added", handleBookmarkAdded);
+    return () => {
+      socket.off("bookmark-added", handleBookmarkAdded);
+    };
+  }, [socket, sessionId]);
+
+  // refetch once per new label so fresh speakers pick up their names
+  const seenLabels = useRef(new Set<string>());
+  useEffect(() => {
+    const newLabels = segments
+      .map((s) => s.speaker)
+      .filter((label): label is string => !!label && !seenLabels.current.has(label));
+
+    if (newLabels.length > 0) {
+      newLabels.forEach((label) => seenLabels.current.add(label));
+      fetchSpeakerNames();
+    }
+  }, [segments, fetchSpeakerNames]);
 
   useEffect(() => {
     if (!socket || !sessionId) return;
@@ -39,6 +137,7 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
 
     const handleTranscriptUpdate = (data: TranscriptSegment) => {
       console.log(`[TranscriptView] Received transcript update:`, data);
+      transcribedSequences.current.add(data.sequence);
       setSegments((prev) => {
         const existing = prev.findIndex((s) => s.sequence === data.sequence);
         if (existing >= 0) {
@@ -48,13 +147,28 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
         }
         return [...prev, data].sort((a, b) => a.sequence - b.sequence);
       });
+      // the authoritative transcript replaces the provisional slices of its chunk
+      setInterim((prev) => prev.filter((slice) => slice.sequence !== data.sequence));
+    };
+
+    const handleTranscriptInterim = (data: InterimSlice) => {
+      // late slice for a chunk that is already transcribed
+      if (transcribedSequences.current.has(data.sequence)) return;
+
+      setInterim((prev) =>
+        [...prev.filter((s) => s.sequence !== data.sequence || s.index !== data.index), data].sort(
+          (a, b) => a.sequence - b.sequence || a.index - b.index
+        )
+      );
     };
 
     socket.on("transcript-updated", handleTranscriptUpdate);
+    socket.on("transcript-interim", handleTranscriptInterim);
 
     return () => {
       console.log(`[TranscriptView] Leaving session room: ${sessionId}`);
       socket.off("transcript-updated", handleTranscriptUpdate);
+      socket.off("transcript-interim", handleTranscriptInterim);
       if (isConnected) {
         socket.emit("leave", `session:${sessionId}`);
       }
@@ -66,7 +180,7 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
     if (autoScroll && bottomRef.current) {
       bottomRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [segments, autoScroll]);
+  }, [segments, interim, autoScroll]);
 
   const handleScroll = () => {
     if (!containerRef.current) return;
@@ -75,7 +189,24 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
     setAutoScroll(isNearBottom);
   };
 
-  if (!sessionId || segments.length === 0) {
+  // bookmarks sit under the chunk they were made in, until it's transcribed they trail the list
+  const transcribed = new Set(segments.map((segment) => segment.sequence));
+  const pendingBookmarks = bookmarks.filter(
+    (bookmark) => bookmark.sequence === null || !transcribed.has(bookmark.sequence)
+  );
+
+  const renderBookmarks = (items: Bookmark[]) =>
+    items.map((bookmark) => (
+      <div
+        key={bookmark.id}
+        className="flex items-center gap-2 px-3 py-1 text-xs font-bold bg-retro-accent border-2 border-black"
+      >
+        <span>🔖 {formatOffset(bookmark.offsetMs)}</span>
+        {bookmark.note && <span className="font-normal truncate">{bookmark.note}</span>}
+      </div>
+    ));
+
+  if (!sessionId || (segments.length === 0 && interim.length === 0 && bookmarks.length === 0)) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-6 space-y-4">
         <div className="text-center space-y-3 max-w-md">
@@ -166,6 +297,14 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
             key={segment.chunkId}
             className="p-4 bg-white dark:bg-gray-900 border-4 border-black dark:border-white shadow-retro"
           >
+            {bookmarks.some((bookmark) => bookmark.sequence === segment.sequence) && (
+              <div className="mb-3 space-y-1">
+                {renderBookmarks(
+                  bookmarks.filter((bookmark) => bookmark.sequence === segment.sequence)
+                )}
+              </div>
+            )}
+
             {/* Processing Metadata */}
             <div className="flex items-center justify-between mb-3 pb-2 border-b-2 border-gray-300 dark:border-gray-700">
               <div className="flex items-center gap-2">
@@ -177,7 +316,7 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
               <div className="flex gap-2 text-xs">
                 {segment.speaker && (
                   <span className="px-2 py-1 bg-retro-secondary border-2 border-black font-bold">
-                    👤 {segment.speaker}
+                    👤 {speakerNames[segment.speaker] || segment.speaker}
                   </span>
                 )}
                 <span className="px-2 py-1 bg-gray-200 dark:bg-gray-800 border-2 border-black font-bold">
@@ -213,6 +352,20 @@ export function TranscriptView({ sessionId }: TranscriptViewProps) {
             </div>
           </div>
         ))}
+
+        {pendingBookmarks.length > 0 && (
+          <div className="space-y-1">{renderBookmarks(pendingBookmarks)}</div>
+        )}
+
+        {/* Provisional text from short slices, replaced once the chunk is transcribed */}
+        {interim.length > 0 && (
+          <div className="p-4 border-4 border-dashed border-gray-400 dark:border-gray-600">
+            <p className="text-xs font-bold uppercase text-gray-400 mb-1">Live (provisional)</p>
+            <p className="text-sm italic text-gray-400 dark:text-gray-500">
+              {interim.map((slice) => slice.text).join(" ")}
+            </p>
+          </div>
+        )}
         <div ref={bottomRef} />
       </div>
     </div>
@@ -7,6 +7,7 @@ import {
   AudioRecorderResult,
   AudioRecorderOptions,
   AudioChunkData,
+  InterimSliceData,
 } from "@/lib/audioRecorder";
 
 export type RecordingStatus = "idle" | "recording" | "paused" | "processing";
@@ -18,6 +19,11 @@ interface UseAudioRecorderOptions extends AudioRecorderOptions {
    */
   onChunk?: (chunkData: AudioChunkData) => void;
 
+  /**
+   * Callback fired for each short slice when interimSliceMs is set
+   */
+  onInterimSlice?: (slice: InterimSliceData) => void;
+
   /**
    * Callback fired when recording starts
    */
@@ -53,7 +59,16 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
   const recorderRef = useRef<AudioRecorderResult | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
-  const { onChunk, onStart, onPause, onResume, onStop, onError, ...recorderOptions } = options;
+  const {
+    onChunk,
+    onInterimSlice,
+    onStart,
+    onPause,
+    onResume,
+    onStop,
+    onError,
+    ...recorderOptions
+  } = options;
 
   // Cleanup on unmount
   useEffect(() => {
@@ -97,8 +112,8 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
 
       const recorder =
         audioSource === "mic"
-          ? await startMicRecording(handleChunk, recorderOptions)
-          : await startTabRecording(handleChunk, recorderOptions);
+          ? await startMicRecording(handleChunk, recorderOptions, onInterimSlice)
+          : await startTabRecording(handleChunk, recorderOptions, onInterimSlice);
 
       recorderRef.current = recorder;
       startTimer();
@@ -109,7 +124,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
       setStatus("idle");
       onError?.(error);
     }
-  }, [audioSource, onChunk, onStart, onError, recorderOptions, startTimer]);
+  }, [audioSource, onChunk, onInterimSlice, onStart, onError, recorderOptions, startTimer]);
 
   // Pause recording
   const pause = useCallback(() => {
@@ -143,6 +158,13 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
     onStop?.();
   }, [stopTimer, onStop]);
 
+  // where in the recorded audio we are right now, null when nothing is being recorded
+  const getPosition = useCallback(() => {
+    const current = recorderRef.current;
+    if (!current) return null;
+    return { offsetMs: current.getElapsedMs(), sequence: current.getSequence() };
+  }, []);
+
   // Change audio source
   const changeSource = useCallback(
     (source: AudioSource) => {
@@ -166,6 +188,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
     resume,
     stop,
     changeSource,
+    getPosition,
 
     // Computed
     isRecording: status === "recording",
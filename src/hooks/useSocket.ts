@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { io, Socket } from "socket.io-client";
+import type { EngineName } from "@/lib/transcriptionEngine";
 
 interface UseSocketOptions {
   /**
@@ -23,6 +24,7 @@ interface QueuedChunk {
   sessionId: string;
   sequence: number;
   timestamp: number;
+  elapsedMs: number;
   blob: Blob;
   retryCount: number;
   queuedAt: number;
@@ -43,6 +45,8 @@ export function useSocket(options: UseSocketOptions = {}) {
   const chunkQueueRef = useRef<QueuedChunk[]>([]);
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isProcessingQueueRef = useRef(false);
+  // session being recorded, rejoined after a reconnect
+  const activeSessionRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (!autoConnect) return;
@@ -55,12 +59,46 @@ export function useSocket(options: UseSocketOptions = {}) {
 
     socketRef.current = socket;
 
+    // listeners of a rejoin still waiting for its answer, dropped on the next connect
+    let cancelRejoin: (() => void) | null = null;
+
     // Connection event handlers
     socket.on("connect", () => {
       console.log("Socket.io connected:", socket.id);
       setIsConnected(true);
       setError(null);
 
+      cancelRejoin?.();
+      cancelRejoin = null;
+
+      const openSession = activeSessionRef.current;
+      if (openSession) {
+        // the server may have restarted, reopen the session before replaying chunks
+        const onRejoined = () => {
+          cleanup();
+          processQueuedChunks();
+        };
+
+        // the chunks still have to go out, the server reports per chunk if it won't take them
+        const onRejoinError = (data: { error: string }) => {
+          console.warn(`Rejoining session ${openSession} failed: ${data.error}`);
+          cleanup();
+          processQueuedChunks();
+        };
+
+        const cleanup = () => {
+          socket.off("session-rejoined", onRejoined);
+          socket.off("session-error", onRejoinError);
+          cancelRejoin = null;
+        };
+
+        cancelRejoin = cleanup;
+        socket.on("session-rejoined", onRejoined);
+        socket.on("session-error", onRejoinError);
+        socket.emit("rejoin-session", { sessionId: openSession });
+        return;
+      }
+
       // Process queued chunks on reconnect
       processQueuedChunks();
     });
@@ -116,6 +154,7 @@ export function useSocket(options: UseSocketOptions = {}) {
               sessionId: queuedChunk.sessionId,
               sequence: queuedChunk.sequence,
               timestamp: queuedChunk.timestamp,
+              elapsedMs: queuedChunk.elapsedMs,
               size: queuedChunk.blob.size,
               mimeType: queuedChunk.blob.type,
               audio: arrayBuffer,
@@ -175,10 +214,17 @@ export function useSocket(options: UseSocketOptions = {}) {
    *
    * @param userId - User ID
    * @param title - Session title
+   * @param engine - Transcription engine override (e.g. "local" for offline mode)
+   * @param summaryTemplate - Summary template id, defaults to the general template
    * @returns Promise with session ID
    */
   const startSession = useCallback(
-    async (userId: string, title: string): Promise<string | null> => {
+    async (
+      userId: string,
+      title: string,
+      engine?: EngineName,
+      summaryTemplate?: string
+    ): Promise<string | null> => {
       return new Promise((resolve) => {
         if (!socketRef.current) {
           console.warn("Socket not connected");
@@ -190,6 +236,7 @@ export function useSocket(options: UseSocketOptions = {}) {
 
         const onSessionStarted = (data: { sessionId: string }) => {
           console.log(`Session started: ${data.sessionId}`);
+          activeSessionRef.current = data.sessionId;
           cleanup();
           resolve(data.sessionId);
         };
@@ -208,7 +255,13 @@ export function useSocket(options: UseSocketOptions = {}) {
         socketRef.current.on("session-started", onSessionStarted);
         socketRef.current.on("session-error", onSessionError);
 
-        socketRef.current.emit("start-session", { sessionId, userId, title });
+        socketRef.current.emit("start-session", {
+          sessionId,
+          userId,
+          title,
+          engine,
+          summaryTemplate,
+        });
 
         setTimeout(() => {
           console.warn("Session start timed out");
@@ -227,16 +280,24 @@ export function useSocket(options: UseSocketOptions = {}) {
    * @param sessionId - Recording session ID
    * @param sequence - Chunk sequence number
    * @param timestamp - Timestamp in ms from recording start
+   * @param elapsedMs - Audio recorded by the end of the chunk, pauses excluded
    * @param blob - Audio blob data
    */
   const emitAudioChunk = useCallback(
-    async (sessionId: string, sequence: number, timestamp: number, blob: Blob) => {
+    async (
+      sessionId: string,
+      sequence: number,
+      timestamp: number,
+      elapsedMs: number,
+      blob: Blob
+    ) => {
       if (!socketRef.current?.connected) {
         console.warn(`Socket not connected, queueing chunk ${sequence}`);
         chunkQueueRef.current.push({
           sessionId,
           sequence,
           timestamp,
+          elapsedMs,
           blob,
           retryCount: 0,
           queuedAt: Date.now(),
@@ -252,6 +313,7 @@ export function useSocket(options: UseSocketOptions = {}) {
           sessionId,
           sequence,
           timestamp,
+          elapsedMs,
           size: blob.size,
           mimeType: blob.type,
           audio: arrayBuffer,
@@ -265,6 +327,7 @@ export function useSocket(options: UseSocketOptions = {}) {
           sessionId,
           sequence,
           timestamp,
+          elapsedMs,
           blob,
           retryCount: 0,
           queuedAt: Date.now(),
@@ -275,6 +338,63 @@ export function useSocket(options: UseSocketOptions = {}) {
     []
   );
 
+  /**
+   * Emit a short slice for provisional transcription
+   * Slices are dropped rather than queued while disconnected, the full chunk covers them
+   *
+   * @param sessionId - Recording session ID
+   * @param sequence - Chunk the slice belongs to
+   * @param index - Slice position within the chunk
+   * @param timestamp - Timestamp in ms from recording start
+   * @param blob - Audio blob data
+   */
+  const emitInterimSlice = useCallback(
+    async (sessionId: string, sequence: number, index: number, timestamp: number, blob: Blob) => {
+      if (!socketRef.current?.connected) return;
+
+      try {
+        const arrayBuffer = await blob.arrayBuffer();
+
+        socketRef.current.emit("audio-interim", {
+          sessionId,
+          sequence,
+          index,
+          timestamp,
+          mimeType: blob.type,
+          audio: arrayBuffer,
+        });
+      } catch (error) {
+        console.warn("Failed to emit interim slice:", error);
+      }
+    },
+    []
+  );
+
+  /**
+   * Mark the current moment of a recording as important
+   *
+   * @param sessionId - Session ID
+   * @param offsetMs - Position in the recorded audio, pauses excluded
+   * @param sequence - Chunk being recorded at that moment
+   * @param note - Optional note shown next to the bookmark
+   */
+  const addBookmark = useCallback(
+    (sessionId: string, offsetMs: number, sequence: number, note?: string) => {
+      if (!socketRef.current?.connected) {
+        console.warn("Socket not connected, bookmark dropped");
+        return;
+      }
+
+      socketRef.current.emit("bookmark", {
+        sessionId,
+        offsetMs: Math.max(0, Math.round(offsetMs)),
+        sequence,
+        note: note?.trim() || undefined,
+      });
+    },
+    []
+  );
+
   /**
    * Pause a recording session
    *
@@ -316,6 +436,7 @@ export function useSocket(options: UseSocketOptions = {}) {
       return;
     }
 
+    activeSessionRef.current = null;
     socketRef.current.emit("stop-session", { sessionId });
     console.log(`Stop session requested: ${sessionId}`);
   }, []);
@@ -363,6 +484,8 @@ export function useSocket(options: UseSocketOptions = {}) {
     emit,
     startSession,
     emitAudioChunk,
+    emitInterimSlice,
+    addBookmark,
     pauseSession,
     resumeSession,
     stopSession,
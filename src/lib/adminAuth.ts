@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "./auth";
+
+// comma separated emails allowed into /admin and /api/admin
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAdminEmail(email: string | null | undefined): boolean {
+  return !!email && ADMIN_EMAILS.includes(email.toLowerCase());
+}
+
+// sign-up doesn't require verification, so an unverified address proves nothing
+export function isAdminUser(user: { email: string; emailVerified: boolean }): boolean {
+  return user.emailVerified && isAdminEmail(user.email);
+}
+
+/**
+ * Resolve the signed-in admin for an admin route
+ *
+ * @returns The user, or an error response (401 signed out, 403 not an admin)
+ */
+export async function getAdminUser() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  if (!isAdminUser(session.user)) {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+
+  return { user: session.user };
+}
@@ -4,12 +4,22 @@ export interface AudioRecorderOptions {
   chunkDuration?: number; // chunk duraton in ms, defalt 30s
   mimeType?: string; // audio encoding typ
   audioBitsPerSecond?: number; // bitrate for audio
+  interimSliceMs?: number; // short slices for provisional transcripts, 0 turns them off
+}
+
+// a short standalone recording of the chunk currently being captured
+export interface InterimSliceData {
+  blob: Blob;
+  sequence: number; // chunk the slice belongs to
+  index: number; // position within that chunk
+  timestamp: number;
 }
 
 export interface AudioChunkData {
   blob: Blob;
   sequence: number;
   timestamp: number;
+  elapsedMs: number; // audio captured by the end of this chunk, pauses excluded
   duration: number;
 }
 
@@ -20,17 +30,21 @@ export interface AudioRecorderResult {
   pause: () => void;
   resume: () => void;
   getRecordingStartTime: () => number;
+  getElapsedMs: () => number; // audio captured so far, pauses excluded
+  getSequence: () => number; // chunk currently being captured
 }
 
 // start mic recoreding with chunk callback
 export async function startMicRecording(
   onChunk: (chunkData: AudioChunkData) => void,
-  options: AudioRecorderOptions = {}
+  options: AudioRecorderOptions = {},
+  onInterimSlice?: (slice: InterimSliceData) => void
 ): Promise<AudioRecorderResult> {
   const {
     chunkDuration = 30000,
     mimeType = "audio/webm;codecs=opus",
     audioBitsPerSecond = 128000,
+    interimSliceMs = 0,
   } = options;
 
   const recordingStartTime = Date.now();
@@ -77,6 +91,7 @@ export async function startMicRecording(
         blob: event.data,
         sequence: sequence++,
         timestamp,
+        elapsedMs: clock.elapsedMs(),
         duration: chunkDuration,
       });
     } else if (event.data.size > 0) {
@@ -100,6 +115,17 @@ export async function startMicRecording(
   // Start recording with time slicing (generates chunks every chunkDuration ms)
   console.log(`[AudioRecorder] Starting MediaRecorder with ${chunkDuration}ms chunks`);
   recorder.start(chunkDuration);
+  // started with the recorder, a permission prompt before it isn't part of the audio
+  const clock = createRecordingClock();
+
+  const interim =
+    onInterimSlice && interimSliceMs > 0
+      ? startInterimSlicer(stream, supportedMimeType, interimSliceMs, {
+          getSequence: () => sequence,
+          recordingStartTime,
+          onSlice: onInterimSlice,
+        })
+      : null;
 
   // Return control interface
   return {
@@ -113,19 +139,26 @@ export async function startMicRecording(
         // DON'T call requestData() - it creates corrupt final chunks
         recorder.stop();
       }
+      interim?.stop();
       stream.getTracks().forEach((track) => track.stop());
     },
     pause: () => {
       if (recorder.state === "recording") {
         recorder.pause();
+        interim?.pause();
+        clock.pause();
       }
     },
     resume: () => {
       if (recorder.state === "paused") {
         recorder.resume();
+        interim?.resume();
+        clock.resume();
       }
     },
     getRecordingStartTime: () => recordingStartTime,
+    getElapsedMs: clock.elapsedMs,
+    getSequence: () => sequence,
   };
 }
 
@@ -151,12 +184,14 @@ export async function startMicRecording(
  */
 export async function startTabRecording(
   onChunk: (chunkData: AudioChunkData) => void,
-  options: AudioRecorderOptions = {}
+  options: AudioRecorderOptions = {},
+  onInterimSlice?: (slice: InterimSliceData) => void
 ): Promise<AudioRecorderResult> {
   const {
     chunkDuration = 30000, // Default to 30 seconds
     mimeType = "audio/webm;codecs=opus",
     audioBitsPerSecond = 128000,
+    interimSliceMs = 0,
   } = options;
 
   // Track recording start time for timestamping
@@ -229,7 +264,7 @@ export async function startTabRecording(
       }
     }
     // Fall back to microphone
-    return startMicRecording(onChunk, options);
+    return startMicRecording(onChunk, options, onInterimSlice);
   }
 
   // Check MIME type support
@@ -254,6 +289,7 @@ export async function startTabRecording(
         blob: event.data,
         sequence: sequence++,
         timestamp,
+        elapsedMs: clock.elapsedMs(),
         duration: chunkDuration,
       });
     } else if (event.data.size > 0) {
@@ -286,6 +322,17 @@ export async function startTabRecording(
   // Start recording with time slicing
   console.log(`[AudioRecorder:Tab] Starting MediaRecorder with ${chunkDuration}ms chunks`);
   recorder.start(chunkDuration);
+  // started with the recorder, a permission prompt before it isn't part of the audio
+  const clock = createRecordingClock();
+
+  const interim =
+    onInterimSlice && interimSliceMs > 0
+      ? startInterimSlicer(stream, supportedMimeType, interimSliceMs, {
+          getSequence: () => sequence,
+          recordingStartTime,
+          onSlice: onInterimSlice,
+        })
+      : null;
 
   // Return control interface
   return {
@@ -299,19 +346,132 @@ export async function startTabRecording(
         // DON'T call requestData() - it creates corrupt final chunks
         recorder.stop();
       }
+      interim?.stop();
       stream.getTracks().forEach((track) => track.stop());
     },
     pause: () => {
       if (recorder.state === "recording") {
         recorder.pause();
+        interim?.pause();
+        clock.pause();
       }
     },
     resume: () => {
       if (recorder.state === "paused") {
         recorder.resume();
+        interim?.resume();
+        clock.resume();
       }
     },
     getRecordingStartTime: () => recordingStartTime,
+    getElapsedMs: clock.elapsedMs,
+    getSequence: () => sequence,
+  };
+}
+
+// wall-clock time minus pauses, matches the position in the recorded audio
+function createRecordingClock() {
+  const startedAt = Date.now();
+  let pausedAt: number | null = null;
+  let pausedTotal = 0;
+
+  return {
+    pause: () => {
+      if (pausedAt === null) pausedAt = Date.now();
+    },
+    resume: () => {
+      if (pausedAt === null) return;
+      pausedTotal += Date.now() - pausedAt;
+      pausedAt = null;
+    },
+    elapsedMs: () => (pausedAt ?? Date.now()) - startedAt - pausedTotal,
+  };
+}
+
+/**
+ * Record back-to-back short slices on the same stream for provisional transcripts
+ * Timeslices after the first lack the container header, so every slice gets its
+ * own MediaRecorder and is a standalone file
+ */
+function startInterimSlicer(
+  stream: MediaStream,
+  mimeType: string,
+  sliceMs: number,
+  options: {
+    getSequence: () => number;
+    recordingStartTime: number;
+    onSlice: (slice: InterimSliceData) => void;
+  }
+) {
+  let active = true;
+  let paused = false;
+  let current: MediaRecorder | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastSequence = -1;
+  let index = 0;
+
+  const startSlice = () => {
+    if (!active || paused) return;
+
+    const sequence = options.getSequence();
+    if (sequence !== lastSequence) {
+      lastSequence = sequence;
+      index = 0;
+    }
+    const sliceIndex = index++;
+
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const parts: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) parts.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      const blob = new Blob(parts, { type: mimeType });
+      // same cutoff as full chunks, anything smaller is a stop() artifact
+      if (blob.size > 1000) {
+        options.onSlice({
+          blob,
+          sequence,
+          index: sliceIndex,
+          timestamp: Date.now() - options.recordingStartTime,
+        });
+      }
+      // only a slice ended by its timer rolls over into the next one
+      if (current === recorder) startSlice();
+    };
+
+    current = recorder;
+    recorder.start();
+    timer = setTimeout(() => {
+      if (recorder.state !== "inactive") recorder.stop();
+    }, sliceMs);
+  };
+
+  const stopCurrent = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const recorder = current;
+    current = null;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+  };
+
+  startSlice();
+
+  return {
+    stop: () => {
+      active = false;
+      stopCurrent();
+    },
+    pause: () => {
+      paused = true;
+      stopCurrent();
+    },
+    resume: () => {
+      paused = false;
+      startSlice();
+    },
   };
 }
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { cosineSimilarity, HashingEmbedder } from "./embeddings";
+
+describe("HashingEmbedder", () => {
+  it("gives the same vector for the same text", async () => {
+    const embedder = new HashingEmbedder();
+    const [first] = await embedder.embed(["Ship the release on Friday"]);
+    const [second] = await new HashingEmbedder().embed(["Ship the release on Friday"]);
+
+    expect(first).toEqual(second);
+  });
+
+  it("returns unit vectors of the configured size", async () => {
+    const embedder = new HashingEmbedder(64);
+    const [vector] = await embedder.embed(["the budget for next quarter"]);
+
+    expect(embedder.name).toBe("hashing-64");
+    expect(vector).toHaveLength(64);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+  });
+
+  it("ignores case and punctuation", async () => {
+    const [a, b] = await new HashingEmbedder().embed(["Budget, review!", "budget review"]);
+
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+
+  it("ranks related text above unrelated text", async () => {
+    const [query, related, unrelated] = await new HashingEmbedder().embed([
+      "when is the release",
+      "the release is planned for friday",
+      "lunch was pizza again",
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("leaves text without words as a zero vector", async () => {
+    const [vector] = await new HashingEmbedder(8).embed(["—"]);
+
+    expect(vector).toEqual(new Array(8).fill(0));
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("is 1 for the same direction and -1 for the opposite one", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+  });
+
+  it("is 0 for orthogonal or zero vectors", () => {
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Text embedders used for semantic search over transcripts
+ * Select one with EMBEDDING_PROVIDER (local | gemini | openai)
+ */
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+export const EMBEDDER_NAMES = ["local", "gemini", "openai"] as const;
+
+export type EmbedderName = (typeof EMBEDDER_NAMES)[number];
+
+export interface Embedder {
+  // stored next to every vector, vectors from different embedders are never compared
+  readonly name: string;
+  readonly dimensions: number;
+  readonly isLocal: boolean;
+
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Deterministic feature-hashing embedder
+ * No network and no model, same text always gives the same vector, which makes it
+ * the embedder for tests and fully offline installs
+ */
+export class HashingEmbedder implements Embedder {
+  readonly name: string;
+  readonly isLocal = true;
+
+  constructor(readonly dimensions: number = 256) {
+    this.name = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+    // unigrams plus bigrams so word order carries a little signal
+    const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign;
+    }
+
+    return normalize(vector);
+  }
+}
+
+export class GeminiEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions = 768;
+  readonly isLocal = false;
+  private genAI: GoogleGenerativeAI;
+  private model: string;
+
+  constructor() {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is required for gemini embeddings");
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+    this.name = `gemini:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.batchEmbedContents({
+      requests: texts.map((text) => ({ content: { role: "user", parts: [{ text }] } })),
+    });
+
+    return result.embeddings.map((embedding) => embedding.values);
+  }
+}
+
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  readonly isLocal = false;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+
+  constructor() {
+    this.baseUrl = (
+      process.env.OPENAI_EMBEDDING_BASE_URL ||
+      process.env.OPENAI_TRANSCRIPTION_BASE_URL ||
+      "https://api.openai.com"
+    ).replace(/\/+$/, "");
+    this.apiKey =
+      process.env.OPENAI_EMBEDDING_API_KEY || process.env.OPENAI_TRANSCRIPTION_API_KEY || undefined;
+    this.model = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+    this.dimensions = parseInt(process.env.OPENAI_EMBEDDING_DIMENSIONS || "1536", 10);
+    this.name = `openai:${this.model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/v1/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status} from /v1/embeddings: ${body.slice(0, 200)}`);
+    }
+
+    const data = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+    return data.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+const embedderFactories: Record<EmbedderName, () => Embedder> = {
+  local: () => new HashingEmbedder(parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || "256", 10)),
+  gemini: () => new GeminiEmbedder(),
+  openai: () => new OpenAICompatibleEmbedder(),
+};
+
+let embedder: Embedder | null = null;
+
+/**
+ * Shared embedder configured by EMBEDDING_PROVIDER, defaults to the local one
+ */
+export function getEmbedder(): Embedder {
+  if (!embedder) {
+    const configured = process.env.EMBEDDING_PROVIDER;
+    const name = (EMBEDDER_NAMES as readonly string[]).includes(configured || "")
+      ? (configured as EmbedderName)
+      : "local";
+    embedder = embedderFactories[name]();
+  }
+
+  return embedder;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+// 32-bit FNV-1a, stable across runs and platforms
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,63 @@
+/**
+ * Transcription engine registry
+ * Engines are instantiated on first use and shared afterwards
+ */
+import { prisma } from "./db";
+import { gemini } from "./gemini";
+import { OpenAICompatibleTranscriptionService } from "./openaiTranscription";
+import { EngineName, isEngineName, TranscriptionEngine } from "./transcriptionEngine";
+import { LocalWhisperTranscriptionService } from "./whisperTranscription";
+
+const engineFactories: Record<EngineName, () => TranscriptionEngine> = {
+  gemini: () => gemini,
+  openai: () => new OpenAICompatibleTranscriptionService(),
+  local: () => new LocalWhisperTranscriptionService(),
+};
+
+const engines = new Map<EngineName, TranscriptionEngine>();
+
+export function getDefaultEngineName(): EngineName {
+  const configured = process.env.DEFAULT_TRANSCRIPTION_ENGINE;
+  return isEngineName(configured) ? configured : "gemini";
+}
+
+/**
+ * Get an engine instance by name, falling back to the default engine
+ *
+ * @param name - Engine name stored on the session or user
+ * @returns Shared engine instance
+ */
+export function getTranscriptionEngine(name?: string | null): TranscriptionEngine {
+  const engineName = isEngineName(name) ? name : getDefaultEngineName();
+
+  let engine = engines.get(engineName);
+  if (!engine) {
+    engine = engineFactories[engineName]();
+    engines.set(engineName, engine);
+  }
+
+  return engine;
+}
+
+/**
+ * Resolve the engine for a recording session
+ * Precedence: session choice, then the owner's preference, then DEFAULT_TRANSCRIPTION_ENGINE
+ *
+ * @param session - Session row (only `engine` and `userId` are read)
+ * @returns Engine that should process this session's audio
+ */
+export async function resolveSessionEngine(session: {
+  engine?: string | null;
+  userId: string;
+}): Promise<TranscriptionEngine> {
+  if (isEngineName(session.engine)) {
+    return getTranscriptionEngine(session.engine);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    select: { transcriptionEngine: true },
+  });
+
+  return getTranscriptionEngine(user?.transcriptionEngine);
+}
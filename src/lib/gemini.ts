@@ -1,37 +1,40 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GenerationConfig,
+  GoogleGenerativeAI,
+  ResponseSchema,
+  SchemaType,
+} from "@google/generative-ai";
 import fs from "fs/promises";
 import path from "path";
-
-interface TranscriptionResult {
-  text: string;
-  confidence?: number;
-  speakers?: string[];
-  processingTimeMs: number;
-}
-
-interface SummaryResult {
-  summary: string;
-  keyPoints: string[];
-  processingTimeMs: number;
-}
-
-interface TranscriptionOptions {
-  previousContext?: string;
-  enableDiarization?: boolean;
-  temperature?: number;
-  languageHint?: string;
-  timeout?: number;
-}
-
-interface SummaryOptions {
-  maxLength?: number;
-  focusAreas?: string[];
-  format?: "paragraph" | "bullets";
-}
-
-class GeminiTranscriptionService {
+import { DiarizedTranscriptSchema } from "@/../server/schemas/transcript.schema";
+import type {
+  CompletionOptions,
+  SummaryOptions,
+  SummaryResult,
+  TranscriptionEngine,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from "./transcriptionEngine";
+
+// gemini-side mirror of DiarizedTranscriptSchema, the zod schema still validates the reply
+const DIARIZATION_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      speaker: { type: SchemaType.STRING, description: "SPEAKER_1, SPEAKER_2, ..." },
+      startMs: { type: SchemaType.INTEGER, description: "turn start, ms from clip start" },
+      endMs: { type: SchemaType.INTEGER, description: "turn end, ms from clip start" },
+      text: { type: SchemaType.STRING },
+    },
+    required: ["speaker", "startMs", "endMs", "text"],
+  },
+};
+
+class GeminiTranscriptionService implements TranscriptionEngine {
+  readonly name = "gemini" as const;
+  readonly model: string;
   private genAI: GoogleGenerativeAI;
-  private model: string;
   private maxRetries: number;
   private timeoutMs: number;
 
@@ -65,7 +68,7 @@ class GeminiTranscriptionService {
       const prompt = this.buildTranscriptionPrompt(options);
 
       const model = this.genAI.getGenerativeModel({
-        model: this.model,
+        model: options.model || this.model,
       });
 
       let lastError: Error | null = null;
@@ -88,28 +91,13 @@ class GeminiTranscriptionService {
                   ],
                 },
               ],
-              generationConfig: {
-                temperature: options.temperature ?? 0.1,
-                maxOutputTokens: 2048,
-              },
+              generationConfig: this.buildGenerationConfig(options),
             }),
             this.createTimeout(timeoutMs),
           ]);
 
           const response = await result.response;
-          let text = response.text().trim();
-
-          const words = text.split(/\s+/);
-          if (words.length > 1000) {
-            text =
-              words.slice(0, 1000).join(" ") +
-              " [Transcript limited to 250 words for optimal processing]";
-          }
-
-          // Clean up common Gemini artifacts
-          text = this.cleanTranscriptText(text);
-
-          const speakers = options.enableDiarization ? this.extractSpeakers(text) : undefined;
+          const parsed = this.parseTranscription(response.text(), options);
 
           const processingTimeMs = Date.now() - startTime;
 
@@ -118,8 +106,11 @@ class GeminiTranscriptionService {
           );
 
           return {
-            text,
-            speakers,
+            ...parsed,
+            usage: response.usageMetadata && {
+              inputTokens: response.usageMetadata.promptTokenCount,
+              outputTokens: response.usageMetadata.candidatesTokenCount,
+            },
             processingTimeMs,
           };
         } catch (error) {
@@ -170,22 +161,16 @@ class GeminiTranscriptionService {
             ],
           },
         ],
-        generationConfig: {
-          temperature: options.temperature ?? 0.1,
-          maxOutputTokens: 2048,
-        },
+        generationConfig: this.buildGenerationConfig(options),
       });
 
       const response = await result.response;
-      const text = response.text().trim();
-
-      const speakers = options.enableDiarization ? this.extractSpeakers(text) : undefined;
+      const parsed = this.parseTranscription(response.text(), options);
 
       const processingTimeMs = Date.now() - startTime;
 
       return {
-        text,
-        speakers,
+        ...parsed,
         processingTimeMs,
       };
     } catch (error) {
@@ -257,6 +242,109 @@ class GeminiTranscriptionService {
     }
   }
 
+  // engine entry point for summaries, same as summarizeTranscript
+  async summarize(
+    sessionId: string,
+    transcript: string,
+    options: SummaryOptions = {}
+  ): Promise<SummaryResult> {
+    return this.summarizeTranscript(sessionId, transcript, options);
+  }
+
+  // free-form prompt for summaries, live updates and questions
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+
+    const result = await Promise.race([
+      model.generateContent({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: options.temperature ?? 0.2,
+          maxOutputTokens: options.maxOutputTokens ?? 2048,
+          ...(options.json && { responseMimeType: "application/json" }),
+        },
+      }),
+      this.createTimeout(),
+    ]);
+
+    return result.response.text().trim();
+  }
+
+  // diarized requests use JSON mode so turns come back as structured data
+  private buildGenerationConfig(options: TranscriptionOptions): GenerationConfig {
+    if (options.enableDiarization) {
+      return {
+        temperature: options.temperature ?? 0.1,
+        maxOutputTokens: 8192,
+        responseMimeType: "application/json",
+        responseSchema: DIARIZATION_RESPONSE_SCHEMA,
+      };
+    }
+
+    return {
+      temperature: options.temperature ?? 0.1,
+      maxOutputTokens: 2048,
+    };
+  }
+
+  private parseTranscription(
+    raw: string,
+    options: TranscriptionOptions
+  ): Omit<TranscriptionResult, "processingTimeMs"> {
+    if (options.enableDiarization) {
+      return this.parseDiarizedTurns(raw);
+    }
+
+    let text = raw.trim();
+
+    const words = text.split(/\s+/);
+    if (words.length > 1000) {
+      text =
+        words.slice(0, 1000).join(" ") +
+        " [Transcript limited to 250 words for optimal processing]";
+    }
+
+    // Clean up common Gemini artifacts
+    return { text: this.cleanTranscriptText(text) };
+  }
+
+  /**
+   * Validate JSON-mode diarization output against DiarizedTranscriptSchema
+   * Throws on malformed output so the retry loop asks again
+   */
+  private parseDiarizedTurns(raw: string): Omit<TranscriptionResult, "processingTimeMs"> {
+    const validation = DiarizedTranscriptSchema.safeParse(
+      JSON.parse(this.cleanTranscriptText(raw.trim()))
+    );
+
+    if (!validation.success) {
+      throw new Error(
+        `Invalid diarization output: ${validation.error.errors
+          .map((err) => `${err.path.join(".")}: ${err.message}`)
+          .join("; ")}`
+      );
+    }
+
+    const turns = validation.data
+      .map((turn) => ({
+        ...turn,
+        speaker: turn.speaker.trim().toUpperCase().replace(/\s+/g, "_"),
+        text: turn.text.trim(),
+      }))
+      .filter((turn) => turn.text.length > 0);
+
+    return {
+      text: turns.map((turn) => turn.text).join(" "),
+      speakers: Array.from(new Set(turns.map((turn) => turn.speaker))),
+      segments: turns.map((turn) => ({
+        startMs: Math.round(turn.startMs),
+        endMs: Math.round(turn.endMs),
+        text: turn.text,
+        speaker: turn.speaker,
+      })),
+    };
+  }
+
   private buildTranscriptionPrompt(options: TranscriptionOptions): string {
     if (options.enableDiarization) {
       return this.buildDiarizationPrompt(options);
@@ -318,7 +406,7 @@ class GeminiTranscriptionService {
 
   /**
    * Build optimized prompt for speaker diarization
-   * Outputs structured JSON with speaker labels and timestamps
+   * The reply is forced into DIARIZATION_RESPONSE_SCHEMA via JSON mode
    */
   private buildDiarizationPrompt(options: TranscriptionOptions): string {
     const parts: string[] = [
@@ -330,19 +418,32 @@ class GeminiTranscriptionService {
       "- Focus on extracting clear, intelligible speech only",
       "",
       "Instructions:",
-      "- Transcribe the audio and identify distinct speakers",
+      "- Transcribe the audio and split it into speaker turns",
       "- Label speakers as SPEAKER_1, SPEAKER_2, etc.",
       "- If uncertain about speaker identity, use 'SPEAKER_UNKNOWN'",
-      "- Output structured data with approximate timestamps",
+      "- startMs and endMs are milliseconds from the start of THIS clip",
       "- Do not hallucinate speakers or content not in the audio",
       "- If speech is unintelligible due to noise, mark as [inaudible]",
       "- Remove obvious filler words (um, uh, like) unless they provide context",
       "",
-      "Output Format (JSON array):",
-      "just explain everything in a breif manner not needed to act in a very certain way just maintain decorum",
+      'Output Format: a JSON array of turns like [{"speaker": "SPEAKER_1", "startMs": 0, "endMs": 4200, "text": "..."}]',
       "",
     ];
 
+    if (options.speakerRoster && options.speakerRoster.length > 0) {
+      parts.push("Speakers already identified earlier in this recording:");
+      for (const entry of options.speakerRoster) {
+        parts.push(
+          entry.lastSaid ? `- ${entry.label}, last said: "${entry.lastSaid}"` : `- ${entry.label}`
+        );
+      }
+      parts.push(
+        "",
+        "Reuse these exact labels for the same people; only add a new label for a new voice.",
+        ""
+      );
+    }
+
     if (options.previousContext) {
       parts.push(
         "Previous context:",
@@ -373,6 +474,10 @@ class GeminiTranscriptionService {
       parts.push(`Focus on these areas: ${options.focusAreas.join(", ")}.`);
     }
 
+    if (options.language) {
+      parts.push(`Write the summary in ${options.language}.`);
+    }
+
     if (options.format === "bullets") {
       parts.push("Provide key points as bullet points (use - or • for bullets).");
     } else {
@@ -384,15 +489,6 @@ class GeminiTranscriptionService {
     return parts.join("\n");
   }
 
-  private extractSpeakers(text: string): string[] {
-    const speakerPattern = /\[Speaker \d+\]/g;
-    const matches = text.match(speakerPattern);
-    if (!matches) return [];
-
-    // Return unique speakers
-    return Array.from(new Set(matches)).sort();
-  }
-
   private cleanTranscriptText(text: string): string {
     // Remove common artifacts from Gemini responses
     const artifacts = [
@@ -0,0 +1,310 @@
+import fs from "fs/promises";
+import path from "path";
+
+import type {
+  CompletionOptions,
+  SummaryOptions,
+  SummaryResult,
+  TranscriptionEngine,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionSegment,
+} from "./transcriptionEngine";
+
+interface VerboseTranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  summaryModel?: string;
+}
+
+interface VerboseTranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface VerboseTranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: VerboseTranscriptionSegment[];
+  words?: VerboseTranscriptionWord[];
+  // token-billed models report tokens, whisper reports { type: "duration" }
+  usage?: { type?: string; input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Client for any server exposing the OpenAI `/v1/audio/transcriptions` API
+ * (OpenAI itself, faster-whisper-server, LocalAI, vLLM, ...)
+ */
+export class OpenAICompatibleTranscriptionService implements TranscriptionEngine {
+  readonly name = "openai" as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private summaryModel: string;
+  private maxRetries: number;
+  private timeoutMs: number;
+
+  constructor(config: OpenAICompatibleConfig = {}) {
+    this.baseUrl = (
+      config.baseUrl ||
+      process.env.OPENAI_TRANSCRIPTION_BASE_URL ||
+      "https://api.openai.com"
+    ).replace(/\/+$/, "");
+    this.apiKey = config.apiKey ?? (process.env.OPENAI_TRANSCRIPTION_API_KEY || undefined);
+    this.model = config.model || process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1";
+    this.summaryModel = config.summaryModel || process.env.OPENAI_SUMMARY_MODEL || "gpt-4o-mini";
+    this.maxRetries = parseInt(process.env.OPENAI_TRANSCRIPTION_MAX_RETRIES || "3", 10);
+    this.timeoutMs = parseInt(process.env.OPENAI_TRANSCRIPTION_TIMEOUT_MS || "120000", 10);
+  }
+
+  // transcribe audio chunk through /v1/audio/transcriptions
+  async transcribeChunk(
+    sessionId: string,
+    seq: number,
+    audioPath: string,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const startTime = Date.now();
+
+    console.log(`[OpenAI] starting transcription: session=${sessionId}, seq=${seq}`);
+
+    const audioBuffer = await fs.readFile(audioPath);
+
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        const form = new FormData();
+        form.append(
+          "file",
+          new Blob([new Uint8Array(audioBuffer)], { type: "audio/wav" }),
+          path.basename(audioPath)
+        );
+        form.append("model", options.model || this.model);
+        form.append("response_format", "verbose_json");
+        form.append("temperature", String(options.temperature ?? 0));
+        form.append("timestamp_granularities[]", "segment");
+        form.append("timestamp_granularities[]", "word");
+
+        if (options.languageHint) {
+          // the API expects ISO-639-1, so "en-US" becomes "en"
+          form.append("language", options.languageHint.split("-")[0].toLowerCase());
+        }
+
+        if (options.previousContext) {
+          form.append("prompt", options.previousContext.slice(-200));
+        }
+
+        const response = await this.request<VerboseTranscriptionResponse>(
+          "/v1/audio/transcriptions",
+          { method: "POST", body: form },
+          options.timeout
+        );
+
+        const text = (response.text || "").trim();
+        const processingTimeMs = Date.now() - startTime;
+
+        console.log(
+          `[OpenAI] transcription completed: session=${sessionId}, seq=${seq}, time=${processingTimeMs}ms`
+        );
+
+        return {
+          text,
+          confidence: this.estimateConfidence(response.segments),
+          segments: this.toSegments(response),
+          usage:
+            response.usage?.type === "tokens"
+              ? {
+                  inputTokens: response.usage.input_tokens,
+                  outputTokens: response.usage.output_tokens,
+                }
+              : undefined,
+          processingTimeMs,
+        };
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(`[OpenAI] attempt ${attempt}/${this.maxRetries} failed:`, error);
+
+        if (attempt < this.maxRetries) {
+          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
+          await this.sleep(delay);
+        }
+      }
+    }
+
+    console.error(`[OpenAI] transcription error: session=${sessionId}, seq=${seq}`, lastError);
+    throw new Error(
+      `Transcription failed after ${this.maxRetries} attempts: ${lastError?.message}`
+    );
+  }
+
+  // summarize through /v1/chat/completions on the same server
+  async summarize(
+    sessionId: string,
+    transcript: string,
+    options: SummaryOptions = {}
+  ): Promise<SummaryResult> {
+    const startTime = Date.now();
+
+    console.log(
+      `[OpenAI] starting summarization: session=${sessionId}, length=${transcript.length} chars`
+    );
+
+    const response = await this.request<{
+      choices: Array<{ message: { content: string } }>;
+    }>("/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.summaryModel,
+        temperature: 0.3,
+        messages: [{ role: "user", content: this.buildSummaryPrompt(transcript, options) }],
+      }),
+    });
+
+    const summary = (response.choices[0]?.message?.content || "").trim();
+
+    return {
+      summary,
+      keyPoints: this.extractKeyPoints(summary),
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const response = await this.request<{
+      choices: Array<{ message: { content: string } }>;
+    }>("/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.summaryModel,
+        temperature: options.temperature ?? 0.2,
+        max_tokens: options.maxOutputTokens ?? 2048,
+        ...(options.json && { response_format: { type: "json_object" } }),
+        messages: [{ role: "user", content: prompt }],
+      }),
+    });
+
+    return (response.choices[0]?.message?.content || "").trim();
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit, timeoutMs?: number): Promise<T> {
+    const controller = new AbortController();
+    const timeout = timeoutMs || this.timeoutMs;
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`HTTP ${response.status} from ${endpoint}: ${body.slice(0, 200)}`);
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Request timeout after ${timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private buildSummaryPrompt(transcript: string, options: SummaryOptions): string {
+    const parts: string[] = ["Summarize the following transcript concisely."];
+
+    if (options.maxLength) {
+      parts.push(`Keep the summary under ${options.maxLength} words.`);
+    }
+
+    if (options.focusAreas && options.focusAreas.length > 0) {
+      parts.push(`Focus on these areas: ${options.focusAreas.join(", ")}.`);
+    }
+
+    if (options.language) {
+      parts.push(`Write the summary in ${options.language}.`);
+    }
+
+    if (options.format === "bullets") {
+      parts.push("Provide key points as bullet points (use - or • for bullets).");
+    } else {
+      parts.push("Provide a coherent paragraph summary.");
+    }
+
+    parts.push("", "Transcript:", transcript);
+
+    return parts.join("\n");
+  }
+
+  // whisper reports avg_logprob per segment, exp() of it is a usable 0..1 score
+  private estimateConfidence(segments?: VerboseTranscriptionSegment[]): number | undefined {
+    const logprobs = (segments || [])
+      .map((s) => s.avg_logprob)
+      .filter((p): p is number => typeof p === "number");
+
+    if (logprobs.length === 0) return undefined;
+
+    const mean = logprobs.reduce((sum, p) => sum + p, 0) / logprobs.length;
+    return Math.min(1, Math.max(0, Math.exp(mean)));
+  }
+
+  // words come back as a flat list, so attach each one to the segment it starts in
+  private toSegments(response: VerboseTranscriptionResponse): TranscriptionSegment[] {
+    const words = response.words || [];
+
+    return (response.segments || [])
+      .map((segment) => {
+        const segmentWords = words
+          .filter((w) => w.start >= segment.start && w.start < segment.end)
+          .map((w) => ({
+            startMs: Math.round(w.start * 1000),
+            endMs: Math.round(w.end * 1000),
+            word: w.word.trim(),
+          }));
+
+        return {
+          startMs: Math.round(segment.start * 1000),
+          endMs: Math.round(segment.end * 1000),
+          text: segment.text.trim(),
+          confidence:
+            typeof segment.avg_logprob === "number"
+              ? Math.min(1, Math.max(0, Math.exp(segment.avg_logprob)))
+              : undefined,
+          words: segmentWords.length > 0 ? segmentWords : undefined,
+        };
+      })
+      .filter((segment) => segment.text.length > 0);
+  }
+
+  private extractKeyPoints(summary: string): string[] {
+    return summary
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => /^([-•*]|\d+\.)/.test(line))
+      .map((line) => line.replace(/^[-•*]\s*|\d+\.\s*/, "").trim())
+      .filter(Boolean);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,69 @@
+// maps between the session timeline and the stitched session audio
+// Segment offsets include pause gaps (a chunk starts where it was recorded), the
+// stitched audio is the chunks played back to back. Shared by server and client
+
+export interface TimelineChunk {
+  seq: number;
+  // start within the session timeline, pause gaps included
+  startMs: number;
+  // start within the stitched audio
+  audioStartMs: number;
+  durationMs: number;
+}
+
+/**
+ * Lay chunks out on both timelines, chunks without a stored offset follow the previous one
+ */
+export function buildPlaybackTimeline(
+  chunks: { seq: number; startOffsetMs: number | null; durationMs: number }[]
+): TimelineChunk[] {
+  const timeline: TimelineChunk[] = [];
+  let sessionEnd = 0;
+  let audioEnd = 0;
+
+  for (const chunk of [...chunks].sort((a, b) => a.seq - b.seq)) {
+    const startMs = chunk.startOffsetMs ?? sessionEnd;
+    timeline.push({
+      seq: chunk.seq,
+      startMs,
+      audioStartMs: audioEnd,
+      durationMs: chunk.durationMs,
+    });
+    sessionEnd = Math.max(sessionEnd, startMs + chunk.durationMs);
+    audioEnd += chunk.durationMs;
+  }
+
+  return timeline;
+}
+
+/**
+ * Position in the stitched audio for a session offset
+ * Offsets inside a pause gap snap to the start of the next chunk
+ */
+export function sessionToAudioMs(timeline: TimelineChunk[], sessionMs: number): number {
+  if (timeline.length === 0) return sessionMs;
+
+  let chunk = timeline[0];
+  for (const entry of timeline) {
+    if (entry.startMs > sessionMs) break;
+    chunk = entry;
+  }
+
+  const within = Math.min(Math.max(0, sessionMs - chunk.startMs), chunk.durationMs);
+  return chunk.audioStartMs + within;
+}
+
+/**
+ * Session offset for a position in the stitched audio
+ */
+export function audioToSessionMs(timeline: TimelineChunk[], audioMs: number): number {
+  if (timeline.length === 0) return audioMs;
+
+  let chunk = timeline[0];
+  for (const entry of timeline) {
+    if (entry.audioStartMs > audioMs) break;
+    chunk = entry;
+  }
+
+  return chunk.startMs + Math.max(0, audioMs - chunk.audioStartMs);
+}
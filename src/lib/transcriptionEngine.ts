@@ -0,0 +1,101 @@
+/**
+ * Transcription engine contract shared by every speech-to-text backend
+ */
+
+export const ENGINE_NAMES = ["gemini", "openai", "local"] as const;
+
+export type EngineName = (typeof ENGINE_NAMES)[number];
+
+// offsets are relative to the start of the transcribed audio file
+export interface TranscriptionWord {
+  startMs: number;
+  endMs: number;
+  word: string;
+  confidence?: number;
+}
+
+export interface TranscriptionSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string;
+  confidence?: number;
+  words?: TranscriptionWord[];
+}
+
+// token counts as reported by the backend, left out when it doesn't report them
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  confidence?: number;
+  speakers?: string[];
+  segments?: TranscriptionSegment[];
+  usage?: TokenUsage;
+  processingTimeMs: number;
+}
+
+export interface SummaryResult {
+  summary: string;
+  keyPoints: string[];
+  processingTimeMs: number;
+}
+
+// speaker labels already used earlier in the session, with the last thing each said
+export interface SpeakerRosterEntry {
+  label: string;
+  lastSaid?: string;
+}
+
+export interface TranscriptionOptions {
+  previousContext?: string;
+  speakerRoster?: SpeakerRosterEntry[];
+  enableDiarization?: boolean;
+  temperature?: number;
+  languageHint?: string;
+  timeout?: number;
+  // use this model instead of the engine's configured one
+  model?: string;
+}
+
+export interface SummaryOptions {
+  maxLength?: number;
+  focusAreas?: string[];
+  format?: "paragraph" | "bullets";
+  // language to write the summary in (e.g. "German"), defaults to the transcript's
+  language?: string;
+}
+
+// free-form prompt completion for features built on top of transcripts (Q&A, etc.)
+export interface CompletionOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean;
+}
+
+export interface TranscriptionEngine {
+  readonly name: EngineName;
+  readonly model: string;
+
+  transcribeChunk(
+    sessionId: string,
+    seq: number,
+    audioPath: string,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptionResult>;
+
+  summarize(
+    sessionId: string,
+    transcript: string,
+    options?: SummaryOptions
+  ): Promise<SummaryResult>;
+
+  complete(prompt: string, options?: CompletionOptions): Promise<string>;
+}
+
+export function isEngineName(value: unknown): value is EngineName {
+  return typeof value === "string" && (ENGINE_NAMES as readonly string[]).includes(value);
+}
@@ -0,0 +1,255 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+
+import { OpenAICompatibleTranscriptionService } from "./openaiTranscription";
+import type {
+  CompletionOptions,
+  SummaryOptions,
+  SummaryResult,
+  TranscriptionEngine,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionSegment,
+} from "./transcriptionEngine";
+
+const execFileAsync = promisify(execFile);
+
+type WhisperFlavor = "whisper.cpp" | "faster-whisper";
+
+// whisper.cpp `-oj` output
+interface WhisperCppOutput {
+  transcription: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+// openai-whisper style output written by faster-whisper CLIs (whisper-ctranslate2)
+interface FasterWhisperOutput {
+  text?: string;
+  segments: Array<{
+    start: number;
+    end: number;
+    text: string;
+    avg_logprob?: number;
+    words?: Array<{ start: number; end: number; word: string; probability?: number }>;
+  }>;
+}
+
+/**
+ * Offline engine that shells out to a local whisper.cpp or faster-whisper executable
+ * Audio never leaves the machine; summaries go to LOCAL_SUMMARY_BASE_URL when configured
+ */
+export class LocalWhisperTranscriptionService implements TranscriptionEngine {
+  readonly name = "local" as const;
+  readonly model: string;
+  private binary: string;
+  private flavor: WhisperFlavor;
+  private threads: number;
+  private timeoutMs: number;
+  private summarizer: OpenAICompatibleTranscriptionService | null;
+
+  constructor() {
+    const binary = process.env.WHISPER_BINARY;
+    if (!binary) {
+      throw new Error("WHISPER_BINARY environment variable is required for local transcription");
+    }
+
+    this.binary = binary;
+    this.flavor =
+      process.env.WHISPER_FLAVOR === "faster-whisper" ? "faster-whisper" : "whisper.cpp";
+    this.model = process.env.WHISPER_MODEL || "base.en";
+    this.threads = parseInt(process.env.WHISPER_THREADS || "4", 10);
+    this.timeoutMs = parseInt(process.env.WHISPER_TIMEOUT_MS || "300000", 10);
+
+    // a self-hosted LLM (llama.cpp server, Ollama, vLLM) keeps summaries on-prem too
+    this.summarizer = process.env.LOCAL_SUMMARY_BASE_URL
+      ? new OpenAICompatibleTranscriptionService({
+          baseUrl: process.env.LOCAL_SUMMARY_BASE_URL,
+          apiKey: process.env.LOCAL_SUMMARY_API_KEY || "",
+          summaryModel: process.env.LOCAL_SUMMARY_MODEL || "llama3.1",
+        })
+      : null;
+  }
+
+  // transcribe the 16kHz mono wav produced by convertToWav
+  async transcribeChunk(
+    sessionId: string,
+    seq: number,
+    audioPath: string,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const startTime = Date.now();
+
+    console.log(`[Whisper] starting ${this.flavor}: session=${sessionId}, seq=${seq}`);
+
+    const parsed = path.parse(audioPath);
+    const outputBase = path.join(parsed.dir, `${parsed.name}.whisper`);
+    const { args, outputPath } = this.buildCommand(audioPath, outputBase, options);
+
+    try {
+      await execFileAsync(this.binary, args, {
+        timeout: options.timeout || this.timeoutMs,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+
+      const raw = JSON.parse(await fs.readFile(outputPath, "utf-8"));
+      const { text, segments, confidence } = parseWhisperOutput(raw);
+
+      const processingTimeMs = Date.now() - startTime;
+
+      console.log(
+        `[Whisper] transcription completed: session=${sessionId}, seq=${seq}, segments=${segments.length}, time=${processingTimeMs}ms`
+      );
+
+      return { text, segments, confidence, processingTimeMs };
+    } catch (error) {
+      console.error(`[Whisper] transcription error: session=${sessionId}, seq=${seq}`, error);
+      throw new Error(
+        `Local transcription failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      await fs.unlink(outputPath).catch(() => undefined);
+    }
+  }
+
+  async summarize(
+    sessionId: string,
+    transcript: string,
+    options: SummaryOptions = {}
+  ): Promise<SummaryResult> {
+    if (!this.summarizer) {
+      throw new Error(
+        "Local summarization requires LOCAL_SUMMARY_BASE_URL (an OpenAI-compatible chat server)"
+      );
+    }
+
+    return this.summarizer.summarize(sessionId, transcript, options);
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    if (!this.summarizer) {
+      throw new Error(
+        "Local completions require LOCAL_SUMMARY_BASE_URL (an OpenAI-compatible chat server)"
+      );
+    }
+
+    return this.summarizer.complete(prompt, options);
+  }
+
+  private buildCommand(
+    audioPath: string,
+    outputBase: string,
+    options: TranscriptionOptions
+  ): { args: string[]; outputPath: string } {
+    const language = options.languageHint?.split("-")[0].toLowerCase() || "auto";
+    const prompt = options.previousContext?.slice(-200);
+
+    if (this.flavor === "faster-whisper") {
+      const outputDir = path.dirname(outputBase);
+      const args = [
+        audioPath,
+        "--model",
+        options.model || this.model,
+        "--output_format",
+        "json",
+        "--output_dir",
+        outputDir,
+        "--threads",
+        String(this.threads),
+        "--verbose",
+        "False",
+        "--word_timestamps",
+        "True",
+      ];
+      if (language !== "auto") args.push("--language", language);
+      if (prompt) args.push("--initial_prompt", prompt);
+
+      return {
+        args,
+        outputPath: path.join(outputDir, `${path.parse(audioPath).name}.json`),
+      };
+    }
+
+    // whisper.cpp takes a model file, only WHISPER_MODEL_PATH is trusted so options.model is ignored
+    const modelPath = process.env.WHISPER_MODEL_PATH;
+    if (!modelPath) {
+      throw new Error("WHISPER_MODEL_PATH is required for whisper.cpp");
+    }
+
+    const args = [
+      "-m",
+      modelPath,
+      "-f",
+      audioPath,
+      "-l",
+      language,
+      "-t",
+      String(this.threads),
+      "-oj",
+      "-of",
+      outputBase,
+      "-np",
+    ];
+    if (prompt) args.push("--prompt", prompt);
+
+    return { args, outputPath: `${outputBase}.json` };
+  }
+}
+
+/**
+ * Normalize whisper.cpp and openai-whisper JSON into text plus millisecond segments
+ */
+export function parseWhisperOutput(raw: unknown): {
+  text: string;
+  segments: TranscriptionSegment[];
+  confidence?: number;
+} {
+  let segments: TranscriptionSegment[];
+
+  if (raw && typeof raw === "object" && Array.isArray((raw as WhisperCppOutput).transcription)) {
+    segments = (raw as WhisperCppOutput).transcription.map((s) => ({
+      startMs: s.offsets.from,
+      endMs: s.offsets.to,
+      text: s.text.trim(),
+    }));
+  } else if (
+    raw &&
+    typeof raw === "object" &&
+    Array.isArray((raw as FasterWhisperOutput).segments)
+  ) {
+    segments = (raw as FasterWhisperOutput).segments.map((s) => ({
+      startMs: Math.round(s.start * 1000),
+      endMs: Math.round(s.end * 1000),
+      text: s.text.trim(),
+      confidence:
+        typeof s.avg_logprob === "number"
+          ? Math.min(1, Math.max(0, Math.exp(s.avg_logprob)))
+          : undefined,
+      words: s.words?.map((w) => ({
+        startMs: Math.round(w.start * 1000),
+        endMs: Math.round(w.end * 1000),
+        word: w.word.trim(),
+        confidence: w.probability,
+      })),
+    }));
+  } else {
+    throw new Error("Unrecognized whisper output format");
+  }
+
+  segments = segments.filter((s) => s.text.length > 0);
+
+  const scored = segments.filter((s) => s.confidence !== undefined);
+  const confidence =
+    scored.length > 0
+      ? scored.reduce((sum, s) => sum + (s.confidence || 0), 0) / scored.length
+      : undefined;
+
+  return {
+    text: segments.map((s) => s.text).join(" "),
+    segments,
+    confidence,
+  };
+}